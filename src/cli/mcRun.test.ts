@@ -0,0 +1,132 @@
+/* ---------------------------------------------------------------
+ * mcRun.test.ts — The mc-run command line
+ *
+ * Checks the flags and the model file's names and settings, and
+ * runs the compiled command itself: a bad argument must print the
+ * usage and exit with an error, a good model must print its
+ * results as JSON.
+ * --------------------------------------------------------------- */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawnSync } from "child_process";
+import { ModelFile, loadModel, parseArgs } from "./mcRun";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mc-run-"));
+process.on("exit", () => fs.rmSync(dir, { recursive: true, force: true }));
+
+const model = (overrides: Partial<ModelFile> = {}): ModelFile => ({
+    inputs: [
+        { name: "A", type: "UNIFORM", params: { min: 0, max: 1 } },
+        { name: "B", type: "NORMAL", params: { mean: 10, stdev: 2 } },
+    ],
+    outputs: [{ name: "Total", expression: "A + B" }],
+    ...overrides,
+});
+
+let files = 0;
+
+/** Write a model file and return its path */
+function write(contents: unknown): string {
+    const file = path.join(dir, `model${++files}.json`);
+    fs.writeFileSync(file, JSON.stringify(contents));
+    return file;
+}
+
+/** Run the compiled command with the given arguments */
+const run = (...args: string[]) =>
+    spawnSync(process.execPath, [path.join(__dirname, "mcRun.js"), ...args], { encoding: "utf8", timeout: 60000 });
+
+test("flags become config overrides", () => {
+    assert.deepEqual(parseArgs(["m.json"]), { modelPath: "m.json", outPath: undefined, overrides: {} });
+    assert.deepEqual(
+        parseArgs(["--iterations", "5000", "m.json", "--seed", "42", "--sampling", "lhs", "--on-error", "nan", "--out", "r.json"]),
+        {
+            modelPath: "m.json",
+            outPath: "r.json",
+            overrides: { runMode: "iterations", iterations: 5000, seed: 42, samplingMethod: "lhs", errorPolicy: "nan" },
+        }
+    );
+    assert.deepEqual(parseArgs(["m.json", "--seconds", "2.5"]).overrides, { runMode: "time", timeLimitSeconds: 2.5 });
+    assert.deepEqual(parseArgs(["m.json", "--until-stopped"]).overrides, { runMode: "manual" });
+    assert.deepEqual(parseArgs(["m.json", "--seed", "0"]).overrides, { seed: 0 });
+});
+
+test("invalid flags are refused", () => {
+    const refused = (argv: string[], message: RegExp) => assert.throws(() => parseArgs(argv), message);
+    refused(["m.json", "--iterations", "0"], /--iterations must be a whole number from 100 to 1000000, got "0"/);
+    refused(["m.json", "--iterations", "99"], /--iterations must be a whole number/);
+    refused(["m.json", "--iterations", "2500.5"], /--iterations must be a whole number/);
+    refused(["m.json", "--iterations", "2000000"], /--iterations must be a whole number/);
+    refused(["m.json", "--iterations", ""], /--iterations must be a whole number/);
+    refused(["m.json", "--seconds", "0"], /--seconds must be a positive number, got "0"/);
+    refused(["m.json", "--seconds", "soon"], /--seconds must be a positive number/);
+    refused(["m.json", "--seed", "-1"], /--seed must be a whole number from 0/);
+    refused(["m.json", "--seed", "abc"], /--seed must be a whole number from 0/);
+    refused(["m.json", "--sampling", "sobol"], /--sampling must be montecarlo or lhs, got "sobol"/);
+    refused(["m.json", "--on-error", "ignore"], /--on-error must be skip, nan or stop/);
+    refused(["m.json", "--seed"], /--seed needs a value/);
+    refused(["m.json", "--verbose"], /Unexpected argument "--verbose"/);
+    refused(["m.json", "other.json"], /Unexpected argument "other.json"/);
+    refused(["--iterations", "1000"], /No model file given/);
+});
+
+test("model files with duplicate or reserved names are refused", () => {
+    const [a, b] = model().inputs;
+    assert.deepEqual(loadModel(write(model())), model());
+    assert.throws(() => loadModel(write(model({ inputs: [a, b, { ...a }] }))), /Input name "A" is used more than once/);
+    assert.throws(
+        () => loadModel(write(model({ inputs: [a, { ...b, name: "class" }] }))),
+        /Input name "class" must be a JavaScript identifier and not a reserved word/
+    );
+    assert.throws(() => loadModel(write(model({ inputs: [{ ...a, name: "Unit cost" }] }))), /Input name "Unit cost"/);
+    assert.throws(
+        () => loadModel(write(model({ outputs: [{ name: "T", expression: "A" }, { name: "T", expression: "B" }] }))),
+        /Output name "T" is used more than once/
+    );
+    assert.throws(() => loadModel(write({ inputs: [] })), /must have "inputs" and "outputs" arrays/);
+});
+
+test("model file settings are checked", () => {
+    const config = (settings: unknown) => loadModel(write({ ...model(), config: settings }));
+    assert.deepEqual(config({ iterations: 5000, runMode: "time", seed: 7, batchSize: 50 }).config, {
+        iterations: 5000,
+        runMode: "time",
+        seed: 7,
+        batchSize: 50,
+    });
+    assert.throws(() => config({ iterations: 0 }), /config\.iterations must be a whole number from 100 to 1000000, got 0/);
+    assert.throws(() => config({ iterations: "5000" }), /config\.iterations must be a whole number/);
+    assert.throws(() => config({ runMode: "forever" }), /config\.runMode must be iterations, time or manual, got "forever"/);
+    assert.throws(() => config({ batchSize: 0 }), /config\.batchSize must be a whole number from 1 to 1000/);
+    assert.throws(() => config({ seed: 1.5 }), /config\.seed must be a whole number/);
+    assert.throws(() => config({ errorPolicy: "ignore" }), /config\.errorPolicy must be skip, nan or stop/);
+    assert.throws(() => config({ confidenceLevel: 90 }), /config\.confidenceLevel must be a number between 0 and 1/);
+    assert.throws(() => config({ iteration: 5000 }), /config\.iteration is not a setting/);
+    assert.throws(() => config([]), /"config" must be an object/);
+});
+
+test("failures print the usage and exit with an error", () => {
+    const bad = run(write(model()), "--iterations", "0");
+    assert.equal(bad.status, 1);
+    assert.match(bad.stderr, /^mc-run: --iterations must be a whole number/);
+    assert.match(bad.stderr, /Usage: mc-run model\.json/);
+    assert.equal(bad.stdout, "");
+
+    const reserved = run(write(model({ inputs: [{ name: "new", type: "UNIFORM", params: { min: 0, max: 1 } }] })));
+    assert.equal(reserved.status, 1);
+    assert.match(reserved.stderr, /mc-run: Input name "new"/);
+    assert.match(reserved.stderr, /Usage:/);
+});
+
+test("a valid model prints its results as JSON", () => {
+    const ok = run(write(model()), "--iterations", "200", "--seed", "42");
+    assert.equal(ok.status, 0, ok.stderr);
+    const results = JSON.parse(ok.stdout);
+    assert.equal(results.iterations, 200);
+    assert.equal(results.outputs[0].name, "Total");
+    assert.equal(results.outputs[0].stats.count, 200);
+});
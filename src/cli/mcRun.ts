@@ -0,0 +1,335 @@
+#!/usr/bin/env node
+/* ---------------------------------------------------------------
+ * mcRun.ts — Command-line runner for JSON-defined models
+ *
+ *   mc-run model.json [--iterations N | --seconds S | --until-stopped]
+ *                     [--seed N] [--sampling montecarlo|lhs]
+ *                     [--on-error skip|nan|stop] [--out results.json]
+ *
+ * The model file declares the inputs, the outputs as JavaScript
+ * expressions over the input names, optional rank correlations and
+ * optional SimulationConfig settings:
+ *
+ *   {
+ *     "config":  { "iterations": 10000, "samplingMethod": "lhs" },
+ *     "inputs":  [ { "name": "Growth", "type": "PERT",
+ *                    "params": { "min": 0.04, "mode": 0.08, "max": 0.14 } } ],
+ *     "outputs": [ { "name": "Revenue", "expression": "1000 * (1 + Growth) ** 5" } ],
+ *     "correlations": [ { "names": ["A", "B"], "matrix": [[1, 0.5], [0.5, 1]] } ]
+ *   }
+ *
+ * It runs the add-in's engine through a function host and writes the
+ * same statistics and sensitivity the task pane shows, as JSON.
+ * With --seconds or --until-stopped, Ctrl+C ends the run early and
+ * still writes the results; a second Ctrl+C quits.
+ * --------------------------------------------------------------- */
+
+import * as fs from "fs";
+import {
+    CorrelationMatrix,
+    DistributionModifiers,
+    DistributionParams,
+    SimulationConfig,
+    SimulationResults,
+} from "../engine/types";
+import { listDistributions, getParameterisation } from "../engine/registry";
+import { completeCorrelationMatrix } from "../engine/correlation";
+import { FunctionInputSpec, createFunctionHost } from "../engine/host";
+import { runSimulation, stopSimulation } from "../engine/simulator";
+import {
+    DEFAULT_ITERATIONS,
+    DEFAULT_SEED,
+    DEFAULT_CONFIDENCE,
+    DEFAULT_SAMPLING_METHOD,
+    DEFAULT_BATCH_SIZE,
+    DEFAULT_ERROR_POLICY,
+    DEFAULT_RUN_MODE,
+    DEFAULT_TIME_LIMIT_SECONDS,
+    MIN_ITERATIONS,
+    MAX_ITERATIONS,
+    MAX_BATCH_SIZE,
+} from "../shared/constants";
+
+export interface ModelFile {
+    config?: Partial<SimulationConfig>;
+    inputs: {
+        name: string;
+        type: string;
+        params: DistributionParams;
+        modifiers?: DistributionModifiers;
+    }[];
+    outputs: { name: string; expression: string }[];
+    correlations?: { names: string[]; matrix: (number | null)[][] }[];
+}
+
+export interface CliOptions {
+    modelPath: string;
+    outPath?: string;
+    overrides: Partial<SimulationConfig>;
+}
+
+const USAGE =
+    "Usage: mc-run model.json [--iterations N | --seconds S | --until-stopped] [--seed N] [--sampling montecarlo|lhs] " +
+    "[--on-error skip|nan|stop] [--out results.json]";
+
+// ── Settings ────────────────────────────────────────────────────
+
+const isWhole = (v: unknown, min: number, max: number) => Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+
+/** What each setting accepts: a check, and the description the error message gives */
+const SETTINGS: Record<string, [(v: unknown) => boolean, string]> = {
+    runMode: [(v) => v === "iterations" || v === "time" || v === "manual", "iterations, time or manual"],
+    iterations: [
+        (v) => isWhole(v, MIN_ITERATIONS, MAX_ITERATIONS),
+        `a whole number from ${MIN_ITERATIONS} to ${MAX_ITERATIONS}`,
+    ],
+    timeLimitSeconds: [(v) => typeof v === "number" && v > 0 && isFinite(v), "a positive number"],
+    seed: [(v) => isWhole(v, 0, 0xffffffff), "a whole number from 0 (random) to 4294967295"],
+    samplingMethod: [(v) => v === "montecarlo" || v === "lhs", "montecarlo or lhs"],
+    batchSize: [(v) => isWhole(v, 1, MAX_BATCH_SIZE), `a whole number from 1 to ${MAX_BATCH_SIZE}`],
+    confidenceLevel: [(v) => typeof v === "number" && v > 0 && v < 1, "a number between 0 and 1"],
+    probabilityThreshold: [(v) => typeof v === "number" && isFinite(v), "a number"],
+    errorPolicy: [(v) => v === "skip" || v === "nan" || v === "stop", "skip, nan or stop"],
+};
+
+/** Throw unless `value` is valid for the setting; `label` names where it came from */
+function checkSetting(key: string, value: unknown, label: string, shown = JSON.stringify(value)): void {
+    const setting = SETTINGS[key];
+    if (!setting) throw new Error(`${label} is not a setting`);
+    const [valid, accepts] = setting;
+    if (!valid(value)) throw new Error(`${label} must be ${accepts}, got ${shown}`);
+}
+
+// ── Arguments ───────────────────────────────────────────────────
+
+export function parseArgs(argv: string[]): CliOptions {
+    const overrides: Partial<SimulationConfig> = {};
+    let modelPath: string | undefined;
+    let outPath: string | undefined;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            const v = argv[++i];
+            if (v === undefined) throw new Error(`${arg} needs a value`);
+            return v;
+        };
+        /** Check a flag's value as the setting `key`, as a number if `numeric` */
+        const setting = <K extends keyof SimulationConfig>(key: K, numeric: boolean): SimulationConfig[K] => {
+            const raw = value();
+            const v = numeric && raw.trim() !== "" ? Number(raw) : raw;
+            checkSetting(key, v, arg, `"${raw}"`);
+            return v as SimulationConfig[K];
+        };
+        switch (arg) {
+            case "--iterations":
+                overrides.runMode = "iterations";
+                overrides.iterations = setting("iterations", true);
+                break;
+            case "--seconds":
+                overrides.runMode = "time";
+                overrides.timeLimitSeconds = setting("timeLimitSeconds", true);
+                break;
+            case "--until-stopped":
+                overrides.runMode = "manual";
+                break;
+            case "--seed":
+                overrides.seed = setting("seed", true);
+                break;
+            case "--sampling":
+                overrides.samplingMethod = setting("samplingMethod", false);
+                break;
+            case "--on-error":
+                overrides.errorPolicy = setting("errorPolicy", false);
+                break;
+            case "--out":
+                outPath = value();
+                break;
+            default:
+                if (arg.startsWith("--") || modelPath) throw new Error(`Unexpected argument "${arg}"`);
+                modelPath = arg;
+        }
+    }
+    if (!modelPath) throw new Error("No model file given");
+    return { modelPath, outPath, overrides };
+}
+
+// ── Model ───────────────────────────────────────────────────────
+
+/** Native type and parameters for an input, resolving alternative parameterisations */
+function resolveInput(input: ModelFile["inputs"][number]): FunctionInputSpec {
+    const id = String(input.type).toUpperCase();
+    const alt = getParameterisation(id);
+    if (alt) {
+        const problem = alt.validate(input.params);
+        if (problem) throw new Error(`Input "${input.name}": ${problem}`);
+        const params = alt.resolve(input.params);
+        if (typeof params === "string") throw new Error(`Input "${input.name}": ${params}`);
+        return { name: input.name, type: alt.target, params, modifiers: input.modifiers };
+    }
+    const def = listDistributions().find((d) => d.functionId === id);
+    if (!def) throw new Error(`Input "${input.name}": unknown distribution "${input.type}"`);
+    return { name: input.name, type: def.type, params: input.params, modifiers: input.modifiers };
+}
+
+/** Compile the output expressions into one function of the input values */
+function compileOutputs(
+    inputNames: string[],
+    outputs: ModelFile["outputs"]
+): (values: Record<string, number>) => Record<string, number> {
+    const fns = outputs.map((out) => {
+        try {
+            return new Function(...inputNames, `return (${out.expression});`) as (...x: number[]) => number;
+        } catch (e) {
+            throw new Error(`Output "${out.name}": ${(e as Error).message}`);
+        }
+    });
+    return (values) => {
+        const args = inputNames.map((n) => values[n]);
+        const result: Record<string, number> = {};
+        outputs.forEach((out, k) => (result[out.name] = Number(fns[k](...args))));
+        return result;
+    };
+}
+
+/** Whether a name can be a parameter of the compiled outputs — an identifier, not a reserved word */
+function isParameterName(name: string): boolean {
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) return false;
+    try {
+        new Function(name, "");
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** The first name that appears twice, if any */
+function findDuplicate(names: string[]): string | undefined {
+    const seen = new Set<string>();
+    for (const name of names) {
+        if (seen.has(name)) return name;
+        seen.add(name);
+    }
+    return undefined;
+}
+
+export function loadModel(path: string): ModelFile {
+    const model = JSON.parse(fs.readFileSync(path, "utf8")) as ModelFile;
+    if (!Array.isArray(model.inputs) || !Array.isArray(model.outputs)) {
+        throw new Error(`${path} must have "inputs" and "outputs" arrays`);
+    }
+
+    if (model.config !== undefined) {
+        if (typeof model.config !== "object" || model.config === null || Array.isArray(model.config)) {
+            throw new Error(`${path}: "config" must be an object`);
+        }
+        for (const [key, value] of Object.entries(model.config)) {
+            // Convergence settings are passed to the engine as they are
+            if (key !== "convergence") checkSetting(key, value, `${path}: config.${key}`);
+        }
+    }
+
+    // Names are the inputs' ids and the outputs' parameters, so each must be unique
+    const inputNames = model.inputs.map((inp) => inp.name);
+    const invalid = inputNames.find((name) => typeof name !== "string" || !isParameterName(name));
+    if (invalid !== undefined) {
+        throw new Error(`Input name "${invalid}" must be a JavaScript identifier and not a reserved word`);
+    }
+    const duplicateInput = findDuplicate(inputNames);
+    if (duplicateInput !== undefined) throw new Error(`Input name "${duplicateInput}" is used more than once`);
+    const duplicateOutput = findDuplicate(model.outputs.map((out) => out.name));
+    if (duplicateOutput !== undefined) throw new Error(`Output name "${duplicateOutput}" is used more than once`);
+    return model;
+}
+
+function buildCorrelations(model: ModelFile): CorrelationMatrix[] {
+    return (model.correlations ?? []).map((c, i) => {
+        const matrix = completeCorrelationMatrix(c.matrix.map((row) => row.map((v) => (v === null ? NaN : v))));
+        if (typeof matrix === "string") throw new Error(`Correlation ${i + 1}: ${matrix}`);
+        return { id: `corr:${i + 1}`, cellAddress: "", names: c.names, matrix };
+    });
+}
+
+// ── Results ─────────────────────────────────────────────────────
+
+/** Results as plain JSON: statistics and sensitivity, without the raw samples */
+function toJson(results: SimulationResults): unknown {
+    return {
+        config: results.config,
+        iterations: results.iterations,
+        seed: results.seed,
+        elapsedMs: results.elapsedMs,
+        warnings: results.warnings,
+        failureCount: results.failureCount,
+        failures: results.failures.map((f) => ({
+            iteration: f.iteration,
+            inputs: Object.fromEntries(results.inputNames.map((name, j) => [name, f.inputs[j]])),
+            errors: f.errors,
+        })),
+        convergence: results.convergence && {
+            converged: results.convergence.converged,
+            iteration: results.convergence.iteration,
+        },
+        outputs: results.outputs.map((out) => ({
+            name: out.name,
+            stats: out.stats,
+            sensitivity: results.sensitivity.get(out.outputId) ?? [],
+        })),
+    };
+}
+
+async function main(): Promise<void> {
+    const options = parseArgs(process.argv.slice(2));
+    const model = loadModel(options.modelPath);
+
+    const config: SimulationConfig = {
+        iterations: DEFAULT_ITERATIONS,
+        seed: DEFAULT_SEED,
+        samplingMethod: DEFAULT_SAMPLING_METHOD,
+        batchSize: DEFAULT_BATCH_SIZE,
+        confidenceLevel: DEFAULT_CONFIDENCE,
+        probabilityThreshold: 0,
+        errorPolicy: DEFAULT_ERROR_POLICY,
+        runMode: DEFAULT_RUN_MODE,
+        timeLimitSeconds: DEFAULT_TIME_LIMIT_SECONDS,
+        ...model.config,
+        ...options.overrides,
+    };
+
+    const inputs = model.inputs.map(resolveInput);
+    const host = createFunctionHost(
+        inputs,
+        model.outputs.map((o) => o.name),
+        compileOutputs(inputs.map((i) => i.name), model.outputs),
+        buildCorrelations(model)
+    );
+
+    if (config.runMode !== "iterations") {
+        // Only the first Ctrl+C is caught; the next one quits as usual
+        process.once("SIGINT", () => {
+            console.log("[MC] Stopping — computing statistics on the iterations so far");
+            stopSimulation();
+        });
+    }
+
+    const results = await runSimulation(config, undefined, host);
+    const json = JSON.stringify(toJson(results), null, 2);
+    if (options.outPath) {
+        fs.writeFileSync(options.outPath, json + "\n");
+        console.error(`[MC] Wrote ${options.outPath}`);
+    } else {
+        process.stdout.write(json + "\n");
+    }
+}
+
+// Run only as a command, so the tests can import the parsing
+if (require.main === module) {
+    // Engine logging goes to stderr so stdout stays valid JSON
+    console.log = console.error;
+
+    main().catch((e: unknown) => {
+        console.error(`mc-run: ${(e as Error).message}`);
+        console.error(USAGE);
+        process.exit(1);
+    });
+}
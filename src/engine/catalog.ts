@@ -0,0 +1,651 @@
+/* ---------------------------------------------------------------
+ * catalog.ts — Built-in distribution definitions
+ *
+ * Each entry declares a distribution's parameter schema, sampler,
+ * expected value, PDF, CDF, quantile and validation.  The registry seeds
+ * itself from this list; custom functions, the inputs list and
+ * the sparklines are all generated from it.
+ * --------------------------------------------------------------- */
+
+import { DistributionDef, DistributionParams, ParamSpec, ParameterisationDef } from "./types";
+import {
+    sampleNormal,
+    staticNormal,
+    sampleUniform,
+    staticUniform,
+    sampleTriangular,
+    staticTriangular,
+    samplePERT,
+    staticPERT,
+    sampleLognormal,
+    staticLognormal,
+    sampleDiscrete,
+    staticDiscrete,
+    sampleBeta,
+    staticBeta,
+    sampleGamma,
+    staticGamma,
+    sampleWeibull,
+    staticWeibull,
+    sampleExponential,
+    staticExponential,
+    samplePoisson,
+    staticPoisson,
+    sampleBinomial,
+    staticBinomial,
+    sampleStudentT,
+    staticStudentT,
+    sampleBernoulli,
+    staticBernoulli,
+    sampleEmpirical,
+    staticEmpirical,
+    staticCumul,
+    staticGeneral,
+} from "./distributions";
+import {
+    normalPDF,
+    normalCDF,
+    uniformPDF,
+    uniformCDF,
+    triangularPDF,
+    triangularCDF,
+    pertPDF,
+    pertCDF,
+    lognormalPDF,
+    lognormalCDF,
+    discretePMF,
+    discreteCDF,
+    betaPDF,
+    betaCDF,
+    gammaPDF,
+    gammaCDF,
+    weibullPDF,
+    weibullCDF,
+    exponentialPDF,
+    exponentialCDF,
+    poissonPMF,
+    poissonCDF,
+    binomialPMF,
+    binomialCDF,
+    studentTPDF,
+    studentTCDF,
+    bernoulliPMF,
+    bernoulliCDF,
+    empiricalPMF,
+    empiricalCDF,
+    cumulPDF,
+    cumulCDF,
+    generalPDF,
+    generalCDF,
+} from "./density";
+import {
+    normalQuantile,
+    uniformQuantile,
+    triangularQuantile,
+    pertQuantile,
+    lognormalQuantile,
+    discreteQuantile,
+    betaQuantile,
+    gammaQuantile,
+    weibullQuantile,
+    exponentialQuantile,
+    poissonQuantile,
+    binomialQuantile,
+    studentTQuantile,
+    bernoulliQuantile,
+    empiricalQuantile,
+    cumulQuantile,
+    generalQuantile,
+} from "./quantile";
+import { lognormalFromMoments, normalFromPercentiles, pertFromPercentiles } from "./fit";
+
+// ── Helpers ─────────────────────────────────────────────────────
+
+function num(p: DistributionParams, key: string): number {
+    const v = p[key];
+    return typeof v === "number" ? v : (v as number[])?.[0] ?? 0;
+}
+
+function arr(p: DistributionParams, key: string): number[] {
+    const v = p[key];
+    return Array.isArray(v) ? v : [v];
+}
+
+/** Compact number formatting for parameter annotations */
+export function formatParam(n: number): string {
+    return Number.isInteger(n) ? String(n) : n.toFixed(Math.abs(n) < 1 ? 3 : 2);
+}
+
+function scalar(name: string, description: string): ParamSpec {
+    return { name, description, kind: "number" };
+}
+
+function range(name: string, description: string): ParamSpec {
+    return { name, description, kind: "range" };
+}
+
+/** Check that every listed param is a finite number */
+function requireFinite(p: DistributionParams, keys: string[]): string | null {
+    for (const k of keys) {
+        if (!isFinite(num(p, k))) return `${k} must be a number`;
+    }
+    return null;
+}
+
+/** Shared validation for min ≤ mode ≤ max three-point estimates */
+function validateThreePoint(p: DistributionParams): string | null {
+    const err = requireFinite(p, ["min", "mode", "max"]);
+    if (err) return err;
+    const min = num(p, "min"), mode = num(p, "mode"), max = num(p, "max");
+    if (min >= max) return "min must be less than max";
+    if (mode < min || mode > max) return "mode must lie between min and max";
+    return null;
+}
+
+/** Check that every listed param is a finite number greater than 0 */
+function requirePositive(p: DistributionParams, keys: string[]): string | null {
+    const err = requireFinite(p, keys);
+    if (err) return err;
+    for (const k of keys) {
+        if (num(p, k) <= 0) return `${k} must be greater than 0`;
+    }
+    return null;
+}
+
+/** Check that a probability param lies in [0, 1] */
+function requireProbability(p: DistributionParams, key: string): string | null {
+    const v = num(p, key);
+    return isFinite(v) && v >= 0 && v <= 1 ? null : `${key} must be between 0 and 1`;
+}
+
+/** Shared validation for min < x₁ < … < xₙ < max with one y per x */
+function validateKnots(p: DistributionParams, yKey: string): string | null {
+    const err = requireFinite(p, ["min", "max"]);
+    if (err) return err;
+    const min = num(p, "min"), max = num(p, "max");
+    const xs = arr(p, "x"), ys = arr(p, yKey);
+    if (min >= max) return "min must be less than max";
+    if (xs.length !== ys.length) return `x and ${yKey} must be ranges of the same size`;
+    if (xs.some((x) => !isFinite(x)) || ys.some((y) => !isFinite(y))) {
+        return `x and ${yKey} must be numbers`;
+    }
+    for (let i = 0; i < xs.length; i++) {
+        if (xs[i] <= (i === 0 ? min : xs[i - 1]) || xs[i] >= max) {
+            return "x values must be strictly increasing and lie between min and max";
+        }
+    }
+    return null;
+}
+
+/** Full knot lists [min, x…, max] with the end values added */
+function knots(p: DistributionParams, yKey: string, yMin: number, yMax: number): [number[], number[]] {
+    return [
+        [num(p, "min"), ...arr(p, "x"), num(p, "max")],
+        [yMin, ...arr(p, yKey), yMax],
+    ];
+}
+
+/** GENERAL knots with densities scaled to unit area */
+function generalKnots(p: DistributionParams): [number[], number[]] {
+    const [xs, ds] = knots(p, "density", 0, 0);
+    let area = 0;
+    for (let i = 1; i < xs.length; i++) area += 0.5 * (ds[i - 1] + ds[i]) * (xs[i] - xs[i - 1]);
+    return [xs, ds.map((d) => d / area)];
+}
+
+/** Integers from lo to hi inclusive */
+function integerRange(lo: number, hi: number): number[] {
+    const out: number[] = [];
+    for (let k = Math.max(0, Math.floor(lo)); k <= Math.ceil(hi); k++) out.push(k);
+    return out;
+}
+
+// ── Definitions ─────────────────────────────────────────────────
+
+const normal: DistributionDef = {
+    type: "normal",
+    functionId: "NORMAL",
+    params: [scalar("mean", "Mean (μ)"), scalar("stdev", "Standard deviation (σ)")],
+    validate: (p) => {
+        const err = requireFinite(p, ["mean", "stdev"]);
+        if (err) return err;
+        return num(p, "stdev") > 0 ? null : "stdev must be greater than 0";
+    },
+    sample: (p, rng) => sampleNormal(rng, num(p, "mean"), num(p, "stdev")),
+    mean: (p) => staticNormal(num(p, "mean"), num(p, "stdev")),
+    pdf: (p, x) => normalPDF(x, num(p, "mean"), num(p, "stdev")),
+    cdf: (p, x) => normalCDF(x, num(p, "mean"), num(p, "stdev")),
+    quantile: (p, u) => normalQuantile(u, num(p, "mean"), num(p, "stdev")),
+    range: (p) => {
+        const mean = num(p, "mean"), stdev = num(p, "stdev");
+        return [mean - 3.5 * stdev, mean + 3.5 * stdev];
+    },
+    describe: (p) => `μ=${formatParam(num(p, "mean"))}, σ=${formatParam(num(p, "stdev"))}`,
+};
+
+const uniform: DistributionDef = {
+    type: "uniform",
+    functionId: "UNIFORM",
+    params: [scalar("min", "Minimum value"), scalar("max", "Maximum value")],
+    validate: (p) => {
+        const err = requireFinite(p, ["min", "max"]);
+        if (err) return err;
+        return num(p, "min") < num(p, "max") ? null : "min must be less than max";
+    },
+    sample: (p, rng) => sampleUniform(rng, num(p, "min"), num(p, "max")),
+    mean: (p) => staticUniform(num(p, "min"), num(p, "max")),
+    pdf: (p, x) => uniformPDF(x, num(p, "min"), num(p, "max")),
+    cdf: (p, x) => uniformCDF(x, num(p, "min"), num(p, "max")),
+    quantile: (p, u) => uniformQuantile(u, num(p, "min"), num(p, "max")),
+    range: (p) => {
+        const min = num(p, "min"), max = num(p, "max");
+        const pad = (max - min) * 0.15;
+        return [min - pad, max + pad];
+    },
+    describe: (p) => `${formatParam(num(p, "min"))} – ${formatParam(num(p, "max"))}`,
+};
+
+const triangular: DistributionDef = {
+    type: "triangular",
+    functionId: "TRIANGULAR",
+    params: [
+        scalar("min", "Minimum value"),
+        scalar("mode", "Most likely value (mode)"),
+        scalar("max", "Maximum value"),
+    ],
+    validate: validateThreePoint,
+    sample: (p, rng) => sampleTriangular(rng, num(p, "min"), num(p, "mode"), num(p, "max")),
+    mean: (p) => staticTriangular(num(p, "min"), num(p, "mode"), num(p, "max")),
+    pdf: (p, x) => triangularPDF(x, num(p, "min"), num(p, "mode"), num(p, "max")),
+    cdf: (p, x) => triangularCDF(x, num(p, "min"), num(p, "mode"), num(p, "max")),
+    quantile: (p, u) => triangularQuantile(u, num(p, "min"), num(p, "mode"), num(p, "max")),
+    range: (p) => [num(p, "min"), num(p, "max")],
+    describe: (p) =>
+        `${formatParam(num(p, "min"))} – ${formatParam(num(p, "mode"))} – ${formatParam(num(p, "max"))}`,
+};
+
+const pert: DistributionDef = {
+    type: "pert",
+    functionId: "PERT",
+    params: [
+        scalar("min", "Minimum value"),
+        scalar("mode", "Most likely value (mode)"),
+        scalar("max", "Maximum value"),
+    ],
+    validate: validateThreePoint,
+    sample: (p, rng) => samplePERT(rng, num(p, "min"), num(p, "mode"), num(p, "max")),
+    mean: (p) => staticPERT(num(p, "min"), num(p, "mode"), num(p, "max")),
+    pdf: (p, x) => pertPDF(x, num(p, "min"), num(p, "mode"), num(p, "max")),
+    cdf: (p, x) => pertCDF(x, num(p, "min"), num(p, "mode"), num(p, "max")),
+    quantile: (p, u) => pertQuantile(u, num(p, "min"), num(p, "mode"), num(p, "max")),
+    range: (p) => [num(p, "min"), num(p, "max")],
+    describe: (p) =>
+        `${formatParam(num(p, "min"))} – ${formatParam(num(p, "mode"))} – ${formatParam(num(p, "max"))}`,
+};
+
+const lognormal: DistributionDef = {
+    type: "lognormal",
+    functionId: "LOGNORMAL",
+    params: [
+        scalar("mu", "Mean of underlying normal (μ)"),
+        scalar("sigma", "Stdev of underlying normal (σ)"),
+    ],
+    validate: (p) => {
+        const err = requireFinite(p, ["mu", "sigma"]);
+        if (err) return err;
+        return num(p, "sigma") > 0 ? null : "sigma must be greater than 0";
+    },
+    sample: (p, rng) => sampleLognormal(rng, num(p, "mu"), num(p, "sigma")),
+    mean: (p) => staticLognormal(num(p, "mu"), num(p, "sigma")),
+    pdf: (p, x) => lognormalPDF(x, num(p, "mu"), num(p, "sigma")),
+    cdf: (p, x) => lognormalCDF(x, num(p, "mu"), num(p, "sigma")),
+    quantile: (p, u) => lognormalQuantile(u, num(p, "mu"), num(p, "sigma")),
+    range: (p) => [0, Math.exp(num(p, "mu") + 3 * num(p, "sigma"))],
+    describe: (p) => `μ=${formatParam(num(p, "mu"))}, σ=${formatParam(num(p, "sigma"))}`,
+};
+
+const discrete: DistributionDef = {
+    type: "discrete",
+    functionId: "DISCRETE",
+    discrete: true,
+    params: [
+        range("values", "Range of outcome values"),
+        range("probs", "Range of probabilities (same size as values, normalised if they don't sum to 1)"),
+    ],
+    validate: (p) => {
+        const values = arr(p, "values"), probs = arr(p, "probs");
+        if (values.length === 0 || values.length !== probs.length) {
+            return "values and probabilities must be ranges of the same size";
+        }
+        if (values.some((v) => !isFinite(v))) return "values must be numbers";
+        if (probs.some((q) => !isFinite(q) || q < 0)) {
+            return "probabilities must be non-negative numbers";
+        }
+        if (!probs.some((q) => q > 0)) return "probabilities must not all be zero";
+        return null;
+    },
+    prepare: (p) => {
+        const probs = arr(p, "probs");
+        const total = probs.reduce((a, b) => a + b, 0);
+        return { values: arr(p, "values"), probs: probs.map((q) => q / total) };
+    },
+    sample: (p, rng) => sampleDiscrete(rng, arr(p, "values"), arr(p, "probs")),
+    mean: (p) => staticDiscrete(arr(p, "values"), arr(p, "probs")),
+    pdf: (p, x) => discretePMF(x, arr(p, "values"), arr(p, "probs")),
+    cdf: (p, x) => discreteCDF(x, arr(p, "values"), arr(p, "probs")),
+    quantile: (p, u) => discreteQuantile(u, arr(p, "values"), arr(p, "probs")),
+    range: (p) => {
+        const values = arr(p, "values");
+        return [Math.min(...values), Math.max(...values)];
+    },
+    support: (p) => Array.from(new Set(arr(p, "values"))).sort((a, b) => a - b),
+    describe: (p) => {
+        const values = arr(p, "values");
+        const shown = values.slice(0, 4).map(formatParam).join(", ");
+        return `{${shown}${values.length > 4 ? ", …" : ""}}`;
+    },
+};
+
+const beta: DistributionDef = {
+    type: "beta",
+    functionId: "BETA",
+    params: [scalar("alpha", "Shape parameter α"), scalar("beta", "Shape parameter β")],
+    validate: (p) => requirePositive(p, ["alpha", "beta"]),
+    sample: (p, rng) => sampleBeta(rng, num(p, "alpha"), num(p, "beta")),
+    mean: (p) => staticBeta(num(p, "alpha"), num(p, "beta")),
+    pdf: (p, x) => betaPDF(x, num(p, "alpha"), num(p, "beta")),
+    cdf: (p, x) => betaCDF(x, num(p, "alpha"), num(p, "beta")),
+    quantile: (p, u) => betaQuantile(u, num(p, "alpha"), num(p, "beta")),
+    range: () => [0, 1],
+    describe: (p) => `α=${formatParam(num(p, "alpha"))}, β=${formatParam(num(p, "beta"))}`,
+};
+
+const gamma: DistributionDef = {
+    type: "gamma",
+    functionId: "GAMMA",
+    params: [scalar("shape", "Shape parameter (k)"), scalar("scale", "Scale parameter (θ)")],
+    validate: (p) => requirePositive(p, ["shape", "scale"]),
+    sample: (p, rng) => sampleGamma(rng, num(p, "shape"), num(p, "scale")),
+    mean: (p) => staticGamma(num(p, "shape"), num(p, "scale")),
+    pdf: (p, x) => gammaPDF(x, num(p, "shape"), num(p, "scale")),
+    cdf: (p, x) => gammaCDF(x, num(p, "shape"), num(p, "scale")),
+    quantile: (p, u) => gammaQuantile(u, num(p, "shape"), num(p, "scale")),
+    range: (p) => {
+        const k = num(p, "shape"), theta = num(p, "scale");
+        return [0, (k + 4 * Math.sqrt(k)) * theta];
+    },
+    describe: (p) => `k=${formatParam(num(p, "shape"))}, θ=${formatParam(num(p, "scale"))}`,
+};
+
+const weibull: DistributionDef = {
+    type: "weibull",
+    functionId: "WEIBULL",
+    params: [scalar("shape", "Shape parameter (k)"), scalar("scale", "Scale parameter (λ)")],
+    validate: (p) => requirePositive(p, ["shape", "scale"]),
+    sample: (p, rng) => sampleWeibull(rng, num(p, "shape"), num(p, "scale")),
+    mean: (p) => staticWeibull(num(p, "shape"), num(p, "scale")),
+    pdf: (p, x) => weibullPDF(x, num(p, "shape"), num(p, "scale")),
+    cdf: (p, x) => weibullCDF(x, num(p, "shape"), num(p, "scale")),
+    quantile: (p, u) => weibullQuantile(u, num(p, "shape"), num(p, "scale")),
+    // Up to the 99.9th percentile
+    range: (p) => [0, num(p, "scale") * Math.pow(Math.log(1000), 1 / num(p, "shape"))],
+    describe: (p) => `k=${formatParam(num(p, "shape"))}, λ=${formatParam(num(p, "scale"))}`,
+};
+
+const exponential: DistributionDef = {
+    type: "exponential",
+    functionId: "EXPONENTIAL",
+    params: [scalar("mean", "Mean (1 / rate)")],
+    validate: (p) => requirePositive(p, ["mean"]),
+    sample: (p, rng) => sampleExponential(rng, num(p, "mean")),
+    mean: (p) => staticExponential(num(p, "mean")),
+    pdf: (p, x) => exponentialPDF(x, num(p, "mean")),
+    cdf: (p, x) => exponentialCDF(x, num(p, "mean")),
+    quantile: (p, u) => exponentialQuantile(u, num(p, "mean")),
+    range: (p) => [0, num(p, "mean") * Math.log(1000)],
+    describe: (p) => `mean=${formatParam(num(p, "mean"))}`,
+};
+
+const studentT: DistributionDef = {
+    type: "studentt",
+    functionId: "STUDENTT",
+    params: [scalar("df", "Degrees of freedom (ν)")],
+    validate: (p) => requirePositive(p, ["df"]),
+    sample: (p, rng) => sampleStudentT(rng, num(p, "df")),
+    mean: (p) => staticStudentT(num(p, "df")),
+    pdf: (p, x) => studentTPDF(x, num(p, "df")),
+    cdf: (p, x) => studentTCDF(x, num(p, "df")),
+    quantile: (p, u) => studentTQuantile(u, num(p, "df")),
+    range: (p) => {
+        const half = Math.min(20, 4 + 8 / num(p, "df"));
+        return [-half, half];
+    },
+    describe: (p) => `ν=${formatParam(num(p, "df"))}`,
+};
+
+const poisson: DistributionDef = {
+    type: "poisson",
+    functionId: "POISSON",
+    discrete: true,
+    params: [scalar("lambda", "Mean number of events (λ)")],
+    validate: (p) => requirePositive(p, ["lambda"]),
+    sample: (p, rng) => samplePoisson(rng, num(p, "lambda")),
+    mean: (p) => staticPoisson(num(p, "lambda")),
+    pdf: (p, x) => poissonPMF(x, num(p, "lambda")),
+    cdf: (p, x) => poissonCDF(x, num(p, "lambda")),
+    quantile: (p, u) => poissonQuantile(u, num(p, "lambda")),
+    range: (p) => {
+        const lambda = num(p, "lambda");
+        return [Math.max(0, Math.floor(lambda - 4 * Math.sqrt(lambda))), Math.ceil(lambda + 4 * Math.sqrt(lambda) + 2)];
+    },
+    support: (p) => {
+        const lambda = num(p, "lambda");
+        return integerRange(lambda - 4 * Math.sqrt(lambda), lambda + 4 * Math.sqrt(lambda) + 2);
+    },
+    describe: (p) => `λ=${formatParam(num(p, "lambda"))}`,
+};
+
+const binomial: DistributionDef = {
+    type: "binomial",
+    functionId: "BINOMIAL",
+    discrete: true,
+    params: [scalar("n", "Number of trials"), scalar("p", "Probability of success per trial")],
+    validate: (p) => {
+        const n = num(p, "n");
+        if (!Number.isInteger(n) || n < 1) return "n must be a whole number of at least 1";
+        return requireProbability(p, "p");
+    },
+    sample: (p, rng) => sampleBinomial(rng, num(p, "n"), num(p, "p")),
+    mean: (p) => staticBinomial(num(p, "n"), num(p, "p")),
+    pdf: (p, x) => binomialPMF(x, num(p, "n"), num(p, "p")),
+    cdf: (p, x) => binomialCDF(x, num(p, "n"), num(p, "p")),
+    quantile: (p, u) => binomialQuantile(u, num(p, "n"), num(p, "p")),
+    range: (p) => [0, num(p, "n")],
+    support: (p) => {
+        const n = num(p, "n"), prob = num(p, "p");
+        const mu = n * prob, sd = Math.sqrt(n * prob * (1 - prob));
+        return integerRange(mu - 4 * sd - 1, Math.min(n, mu + 4 * sd + 1));
+    },
+    describe: (p) => `n=${formatParam(num(p, "n"))}, p=${formatParam(num(p, "p"))}`,
+};
+
+const bernoulli: DistributionDef = {
+    type: "bernoulli",
+    functionId: "BERNOULLI",
+    discrete: true,
+    params: [scalar("p", "Probability of the event (returns 1)")],
+    validate: (p) => requireProbability(p, "p"),
+    sample: (p, rng) => sampleBernoulli(rng, num(p, "p")),
+    mean: (p) => staticBernoulli(num(p, "p")),
+    pdf: (p, x) => bernoulliPMF(x, num(p, "p")),
+    cdf: (p, x) => bernoulliCDF(x, num(p, "p")),
+    quantile: (p, u) => bernoulliQuantile(u, num(p, "p")),
+    range: () => [0, 1],
+    support: () => [0, 1],
+    describe: (p) => `p=${formatParam(num(p, "p"))}`,
+};
+
+const empirical: DistributionDef = {
+    type: "empirical",
+    functionId: "EMPIRICAL",
+    discrete: true,
+    params: [range("data", "Range of observed values (blank cells are ignored)")],
+    validate: (p) =>
+        arr(p, "data").some((v) => isFinite(v)) ? null : "data must contain at least one number",
+    prepare: (p) => ({
+        data: arr(p, "data").filter((v) => isFinite(v)).sort((a, b) => a - b),
+    }),
+    sample: (p, rng) => sampleEmpirical(rng, arr(p, "data")),
+    mean: (p) => staticEmpirical(arr(p, "data")),
+    pdf: (p, x) => empiricalPMF(x, arr(p, "data")),
+    cdf: (p, x) => empiricalCDF(x, arr(p, "data")),
+    quantile: (p, u) => empiricalQuantile(u, arr(p, "data")),
+    range: (p) => {
+        const data = arr(p, "data");
+        return [data[0], data[data.length - 1]];
+    },
+    support: (p) => Array.from(new Set(arr(p, "data"))),
+    describe: (p) => {
+        const data = arr(p, "data");
+        return `n=${data.length}, x̄=${formatParam(staticEmpirical(data))}`;
+    },
+};
+
+const cumul: DistributionDef = {
+    type: "cumul",
+    functionId: "CUMUL",
+    params: [
+        scalar("min", "Minimum value"),
+        scalar("max", "Maximum value"),
+        range("x", "Range of x points between min and max, in increasing order"),
+        range("p", "Range of cumulative probabilities P(X ≤ x), non-decreasing"),
+    ],
+    validate: (p) => {
+        const err = validateKnots(p, "p");
+        if (err) return err;
+        const ps = arr(p, "p");
+        for (let i = 0; i < ps.length; i++) {
+            if (ps[i] < (i === 0 ? 0 : ps[i - 1]) || ps[i] > 1) {
+                return "cumulative probabilities must be non-decreasing between 0 and 1";
+            }
+        }
+        return null;
+    },
+    sample: (p, rng) => cumulQuantile(rng.next(), ...knots(p, "p", 0, 1)),
+    mean: (p) => staticCumul(...knots(p, "p", 0, 1)),
+    pdf: (p, x) => cumulPDF(x, ...knots(p, "p", 0, 1)),
+    cdf: (p, x) => cumulCDF(x, ...knots(p, "p", 0, 1)),
+    quantile: (p, u) => cumulQuantile(u, ...knots(p, "p", 0, 1)),
+    range: (p) => [num(p, "min"), num(p, "max")],
+    describe: (p) =>
+        `${formatParam(num(p, "min"))} – ${formatParam(num(p, "max"))}, ${arr(p, "x").length} pts`,
+};
+
+const general: DistributionDef = {
+    type: "general",
+    functionId: "GENERAL",
+    params: [
+        scalar("min", "Minimum value"),
+        scalar("max", "Maximum value"),
+        range("x", "Range of x points between min and max, in increasing order"),
+        range("density", "Range of relative densities at each x (scaled to unit area)"),
+    ],
+    validate: (p) => {
+        const err = validateKnots(p, "density");
+        if (err) return err;
+        const ds = arr(p, "density");
+        if (ds.some((d) => d < 0)) return "densities must be non-negative";
+        if (!ds.some((d) => d > 0)) return "densities must not all be zero";
+        return null;
+    },
+    sample: (p, rng) => generalQuantile(rng.next(), ...generalKnots(p)),
+    mean: (p) => staticGeneral(...generalKnots(p)),
+    pdf: (p, x) => generalPDF(x, ...generalKnots(p)),
+    cdf: (p, x) => generalCDF(x, ...generalKnots(p)),
+    quantile: (p, u) => generalQuantile(u, ...generalKnots(p)),
+    range: (p) => [num(p, "min"), num(p, "max")],
+    describe: (p) =>
+        `${formatParam(num(p, "min"))} – ${formatParam(num(p, "max"))}, ${arr(p, "x").length} pts`,
+};
+
+/** Distributions available out of the box, in menu order */
+export const BUILTIN_DISTRIBUTIONS: DistributionDef[] = [
+    normal,
+    uniform,
+    triangular,
+    pert,
+    lognormal,
+    discrete,
+    beta,
+    gamma,
+    weibull,
+    exponential,
+    studentT,
+    poisson,
+    binomial,
+    bernoulli,
+    empirical,
+    cumul,
+    general,
+];
+
+// ── Alternative parameterisations ───────────────────────────────
+
+const lognormalMoments: ParameterisationDef = {
+    functionId: "LOGNORMAL2",
+    target: "lognormal",
+    params: [scalar("mean", "Arithmetic mean"), scalar("stdev", "Arithmetic standard deviation")],
+    validate: (p) => requirePositive(p, ["mean", "stdev"]),
+    resolve: (p) => {
+        const fit = lognormalFromMoments(num(p, "mean"), num(p, "stdev"));
+        if (!fit) return "mean and stdev must be greater than 0";
+        return { mu: fit[0], sigma: fit[1] };
+    },
+    describe: (p) => `mean=${formatParam(num(p, "mean"))}, sd=${formatParam(num(p, "stdev"))}`,
+};
+
+const normalPercentiles: ParameterisationDef = {
+    functionId: "NORMALALT",
+    target: "normal",
+    params: [scalar("p10", "10th percentile"), scalar("p90", "90th percentile")],
+    validate: (p) => {
+        const err = requireFinite(p, ["p10", "p90"]);
+        if (err) return err;
+        return num(p, "p10") < num(p, "p90") ? null : "p10 must be less than p90";
+    },
+    resolve: (p) => {
+        const fit = normalFromPercentiles(num(p, "p10"), num(p, "p90"));
+        if (!fit) return "p10 must be less than p90";
+        return { mean: fit[0], stdev: fit[1] };
+    },
+    describe: (p) => `P10=${formatParam(num(p, "p10"))}, P90=${formatParam(num(p, "p90"))}`,
+};
+
+const pertPercentiles: ParameterisationDef = {
+    functionId: "PERTALT",
+    target: "pert",
+    params: [
+        scalar("p10", "10th percentile"),
+        scalar("mode", "Most likely value (mode)"),
+        scalar("p90", "90th percentile"),
+    ],
+    validate: (p) => {
+        const err = requireFinite(p, ["p10", "mode", "p90"]);
+        if (err) return err;
+        return num(p, "p10") < num(p, "p90") ? null : "p10 must be less than p90";
+    },
+    resolve: (p) => {
+        const fit = pertFromPercentiles(num(p, "p10"), num(p, "mode"), num(p, "p90"));
+        if (!fit) return "no PERT has this mode with these percentiles";
+        return { min: fit[0], mode: num(p, "mode"), max: fit[1] };
+    },
+    describe: (p) =>
+        `P10=${formatParam(num(p, "p10"))}, mode=${formatParam(num(p, "mode"))}, P90=${formatParam(num(p, "p90"))}`,
+};
+
+/** Alternative entry points, in menu order */
+export const BUILTIN_PARAMETERISATIONS: ParameterisationDef[] = [
+    lognormalMoments,
+    normalPercentiles,
+    pertPercentiles,
+];
@@ -0,0 +1,126 @@
+/* ---------------------------------------------------------------
+ * convergence.ts — Convergence monitoring for early stopping
+ *
+ * Tracks the running mean, std dev and chosen percentiles of every
+ * output as batches arrive.  At checkpoints spaced a fraction of
+ * the window apart it compares each statistic with its values over
+ * the last window; once none has moved by more than the tolerance
+ * the run counts as converged.
+ *
+ * Everything is estimated in a single pass (Welford moments, P²
+ * percentiles), so tracking costs the same at a million iterations
+ * as at a thousand and holds none of the values.
+ * --------------------------------------------------------------- */
+
+import { ConvergenceConfig, ConvergenceResults } from "./types";
+import { MomentAccumulator, QuantileEstimator, createMoments, createP2Quantile } from "./streaming";
+
+/** Checkpoints recorded per window */
+const CHECKPOINTS_PER_WINDOW = 5;
+
+export interface ConvergenceTracker {
+    /** Add one batch of output rows (NaN = failed); `done` is the iteration count after it */
+    record(done: number, rows: number[][]): void;
+    /** Iteration at which every statistic settled, or null so far */
+    convergedAt(): number | null;
+    /** Traces and outcome so far */
+    results(): ConvergenceResults;
+}
+
+interface OutputState {
+    moments: MomentAccumulator;
+    /** One estimator per tracked percentile */
+    quantiles: QuantileEstimator[];
+    /** Per statistic, its value at each checkpoint */
+    values: number[][];
+}
+
+/** Check settings before a run; returns a message if they are unusable */
+export function validateConvergence(config: ConvergenceConfig): string | null {
+    if (!(config.tolerance > 0)) return "Convergence tolerance must be greater than 0";
+    if (!Number.isInteger(config.window) || config.window < 1) {
+        return "Convergence window must be a whole number of iterations";
+    }
+    if (config.percentiles.some((p) => !(p > 0 && p < 1))) {
+        return "Convergence percentiles must be between 0% and 100%";
+    }
+    return null;
+}
+
+/** Label for a tracked percentile, e.g. 0.05 → "P5", 0.025 → "P2.5" */
+function percentileLabel(p: number): string {
+    return `P${Number((p * 100).toFixed(2))}`;
+}
+
+export function createConvergenceTracker(
+    outputIds: string[],
+    config: ConvergenceConfig
+): ConvergenceTracker {
+    const statistics = ["Mean", "Std Dev", ...config.percentiles.map(percentileLabel)];
+    const spacing = Math.max(1, Math.floor(config.window / CHECKPOINTS_PER_WINDOW));
+    const checkpoints: number[] = [];
+    const states: OutputState[] = outputIds.map(() => ({
+        moments: createMoments(),
+        quantiles: config.percentiles.map((p) => createP2Quantile(p)),
+        values: statistics.map(() => []),
+    }));
+    let convergedAt: number | null = null;
+
+    /** True when no statistic of any output has moved beyond tolerance since checkpoint `since` */
+    const settledSince = (since: number, now: number): boolean =>
+        states.every((st) => {
+            const stdDev = st.values[1][now];
+            return st.values.every((trace) => {
+                const scale = Math.max(Math.abs(trace[now]), stdDev);
+                for (let i = since; i < now; i++) {
+                    const change = Math.abs(trace[now] - trace[i]);
+                    if (scale === 0 ? change > 0 : change > config.tolerance * scale) return false;
+                }
+                return true;
+            });
+        });
+
+    return {
+        record(done, rows) {
+            outputIds.forEach((_, k) => {
+                const st = states[k];
+                for (const row of rows) {
+                    const x = row[k];
+                    if (!Number.isFinite(x)) continue;
+                    st.moments.add(x);
+                    st.quantiles.forEach((q) => q.add(x));
+                }
+            });
+
+            const last = checkpoints[checkpoints.length - 1] ?? 0;
+            if (done - last < spacing) return;
+
+            checkpoints.push(done);
+            for (const st of states) {
+                st.values[0].push(st.moments.mean);
+                st.values[1].push(Math.sqrt(st.moments.variance));
+                st.quantiles.forEach((q, i) => st.values[2 + i].push(q.value()));
+            }
+
+            // Compare with every checkpoint back to one window ago
+            if (convergedAt !== null) return;
+            const now = checkpoints.length - 1;
+            let since = now - 1;
+            while (since >= 0 && checkpoints[since] > done - config.window) since--;
+            if (since >= 0 && settledSince(since, now)) convergedAt = done;
+        },
+        convergedAt: () => convergedAt,
+        results() {
+            return {
+                converged: convergedAt !== null,
+                iteration: convergedAt,
+                statistics,
+                traces: outputIds.map((outputId, k) => ({
+                    outputId,
+                    iterations: checkpoints.slice(),
+                    values: states[k].values.map((v) => v.slice()),
+                })),
+            };
+        },
+    };
+}
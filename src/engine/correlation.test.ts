@@ -0,0 +1,167 @@
+/* ---------------------------------------------------------------
+ * correlation.test.ts — Correlation matrices and Iman-Conover
+ *
+ * Matrices entered by halves must be completed, a matrix that is
+ * not positive definite must be repaired with a warning, and the
+ * reordered samples must carry the target rank correlations while
+ * keeping their values.
+ * --------------------------------------------------------------- */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { CorrelationMatrix, DistributionInput } from "./types";
+import { cholesky, completeCorrelationMatrix, imanConover, nearestCorrelationMatrix, resolveCorrelations } from "./correlation";
+import { createStream } from "./rng";
+
+/** Inconsistent: A and B go together, B and C go together, but A and C go opposite ways */
+const NOT_PSD = [
+    [1, 0.9, -0.9],
+    [0.9, 1, 0.9],
+    [-0.9, 0.9, 1],
+];
+
+/** Spearman rank correlation of two equal-length columns */
+function rankCorrelation(x: number[], y: number[]): number {
+    const ranks = (v: number[]) => {
+        const r = new Array<number>(v.length);
+        v.map((_, i) => i)
+            .sort((a, b) => v[a] - v[b])
+            .forEach((idx, rank) => (r[idx] = rank));
+        return r;
+    };
+    const rx = ranks(x);
+    const ry = ranks(y);
+    const n = rx.length;
+    let d2 = 0;
+    for (let i = 0; i < n; i++) d2 += (rx[i] - ry[i]) ** 2;
+    return 1 - (6 * d2) / (n * (n * n - 1));
+}
+
+/** Assert a matrix is a valid correlation matrix: symmetric, unit diagonal, positive definite */
+function assertValid(m: number[][]) {
+    m.forEach((row, i) => {
+        assert.ok(Math.abs(row[i] - 1) < 1e-12, `diagonal ${i}: ${row[i]}`);
+        row.forEach((v, j) => assert.ok(Math.abs(v - m[j][i]) < 1e-12, `symmetry at ${i},${j}`));
+    });
+    assert.ok(cholesky(m), "positive definite");
+}
+
+const input = (name: string): DistributionInput => ({
+    id: `normal:${name}`,
+    cellAddress: "",
+    type: "normal",
+    params: { mean: 0, stdev: 1 },
+    name,
+});
+
+const spec = (names: string[], matrix: number[][]): CorrelationMatrix => ({
+    id: `corr:${names.join()}`,
+    cellAddress: "Sheet1!F2",
+    names,
+    matrix,
+});
+
+// The repair is logged as a warning too
+console.warn = () => undefined;
+
+test("either triangle completes the matrix", () => {
+    const upper = completeCorrelationMatrix([
+        [NaN, 0.5, -0.2],
+        [NaN, 1, 0.3],
+        [NaN, NaN, 1],
+    ]);
+    const lower = completeCorrelationMatrix([
+        [1, NaN, NaN],
+        [0.5, 1, NaN],
+        [-0.2, 0.3, 1],
+    ]);
+    assert.deepEqual(upper, lower);
+    assert.deepEqual(upper, [
+        [1, 0.5, -0.2],
+        [0.5, 1, 0.3],
+        [-0.2, 0.3, 1],
+    ]);
+    assert.equal(completeCorrelationMatrix([[1]]), "matrix must be at least 2×2");
+    assert.equal(completeCorrelationMatrix([[1, 0.2], [0.3, 1]]), "matrix is not symmetric at row 2, column 1");
+    assert.equal(completeCorrelationMatrix([[1, 1.2], [NaN, 1]]), "correlations must be between -1 and 1");
+    assert.equal(completeCorrelationMatrix([[1, NaN], [NaN, 1]]), "missing correlation for row 2, column 1");
+    assert.equal(completeCorrelationMatrix([[0.5, 0], [0, 1]]), "diagonal entries must be 1");
+});
+
+test("a matrix that is not positive definite is repaired", () => {
+    assert.equal(cholesky(NOT_PSD), null);
+    const repaired = nearestCorrelationMatrix(NOT_PSD);
+    assertValid(repaired);
+    // Each correlation keeps its sign and moves only as far as it has to
+    for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+            if (i === j) continue;
+            assert.equal(Math.sign(repaired[i][j]), Math.sign(NOT_PSD[i][j]));
+            assert.ok(Math.abs(repaired[i][j] - NOT_PSD[i][j]) < 0.6, `${i},${j}: ${repaired[i][j]}`);
+        }
+    }
+    // A valid matrix is left as it is
+    const valid = [[1, 0.5], [0.5, 1]];
+    nearestCorrelationMatrix(valid).forEach((row, i) =>
+        row.forEach((v, j) => assert.ok(Math.abs(v - valid[i][j]) < 1e-5))
+    );
+});
+
+test("resolving warns when it repairs a matrix", () => {
+    const inputs = ["A", "B", "C", "D"].map(input);
+    const resolved = resolveCorrelations(inputs, [spec(["a", "B", "C"], NOT_PSD)])!;
+    assert.deepEqual(resolved.indices, [0, 1, 2]);
+    assert.equal(resolved.warnings.length, 1);
+    assert.match(resolved.warnings[0], /not positive definite; using the nearest valid matrix \(largest change 0\.\d+\)/);
+    assertValid(resolved.matrix);
+
+    const clean = resolveCorrelations(inputs, [spec(["A", "B"], [[1, 0.5], [0.5, 1]]), spec(["D", "B"], [[1, -0.3], [-0.3, 1]])])!;
+    assert.deepEqual(clean.warnings, []);
+    assert.deepEqual(clean.indices, [0, 1, 3]);
+    assert.deepEqual(clean.matrix, [
+        [1, 0.5, 0],
+        [0.5, 1, -0.3],
+        [0, -0.3, 1],
+    ]);
+    assert.equal(resolveCorrelations(inputs, []), null);
+});
+
+test("resolving refuses names it can't match and conflicting entries", () => {
+    const inputs = ["A", "B", "a"].map(input);
+    assert.throws(() => resolveCorrelations(inputs, [spec(["A", "B"], [[1, 0.5], [0.5, 1]])]), /more than one input is named "A"/);
+    assert.throws(
+        () => resolveCorrelations(inputs.slice(0, 2), [spec(["A", "Z"], [[1, 0.5], [0.5, 1]])]),
+        /Correlation matrix at Sheet1!F2: no input named "Z"/
+    );
+    assert.throws(
+        () =>
+            resolveCorrelations(inputs.slice(0, 2), [
+                spec(["A", "B"], [[1, 0.5], [0.5, 1]]),
+                spec(["B", "A"], [[1, 0.4], [0.4, 1]]),
+            ]),
+        /Conflicting correlations between "B" and "A"/
+    );
+});
+
+test("Iman-Conover gives the target rank correlations and keeps the values", () => {
+    const n = 5000;
+    const rng = createStream(11);
+    const target = nearestCorrelationMatrix(NOT_PSD);
+    // Uniform, exponential and wider uniform columns
+    const columns = [
+        Array.from({ length: n }, () => rng.next()),
+        Array.from({ length: n }, () => -Math.log(1 - rng.next())),
+        Array.from({ length: n }, () => rng.next() * 100),
+    ];
+    const before = columns.map((col) => col.slice().sort((a, b) => a - b));
+    imanConover(columns, target, rng);
+
+    columns.forEach((col, i) => assert.deepEqual(col.slice().sort((a, b) => a - b), before[i], `column ${i} values`));
+    for (let i = 0; i < 3; i++) {
+        for (let j = i + 1; j < 3; j++) {
+            const rho = rankCorrelation(columns[i], columns[j]);
+            assert.ok(Math.abs(rho - target[i][j]) < 0.03, `${i},${j}: ${rho}, target ${target[i][j]}`);
+        }
+    }
+    assert.throws(() => imanConover(columns, NOT_PSD, rng), /not positive definite/);
+});
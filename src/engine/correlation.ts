@@ -0,0 +1,350 @@
+/* ---------------------------------------------------------------
+ * correlation.ts — Rank correlation between inputs (Iman-Conover)
+ *
+ * Correlation is induced by reordering each input's independently
+ * drawn samples, never by changing them, so every marginal
+ * distribution is preserved exactly.  Following Iman & Conover
+ * (1982): build van der Waerden scores, give them the target
+ * correlation with a Cholesky transform, then rearrange each input's
+ * samples to follow the ranks of its score column.
+ *
+ * Pure math, no Excel dependency.
+ * --------------------------------------------------------------- */
+
+import { CorrelationMatrix, DistributionInput, RandomStream } from "./types";
+import { inverseStdNormalCDF } from "./special";
+
+/** Smallest eigenvalue kept when repairing a matrix */
+const MIN_EIGENVALUE = 1e-6;
+
+/** Tolerance for symmetry and unit-diagonal checks */
+const TOLERANCE = 1e-9;
+
+/** Correlation structure for the correlated subset of a run's inputs */
+export interface ResolvedCorrelation {
+    /** Indices into the run's input list, in matrix order */
+    indices: number[];
+    /** Positive-definite rank correlation matrix */
+    matrix: number[][];
+    /** Problems that were repaired rather than refused */
+    warnings: string[];
+}
+
+// ── Matrix validation ───────────────────────────────────────────
+
+/**
+ * Fill a correlation matrix entered as a full square, or as just the
+ * upper or lower triangle with the other half blank (NaN).  Blank
+ * diagonal cells count as 1.  Returns an error message or the
+ * completed symmetric matrix.
+ */
+export function completeCorrelationMatrix(raw: number[][]): number[][] | string {
+    const k = raw.length;
+    if (k < 2) return "matrix must be at least 2×2";
+    if (raw.some((row) => row.length !== k)) return "matrix must be square";
+
+    const m: number[][] = raw.map((row) => row.slice());
+    for (let i = 0; i < k; i++) {
+        if (isNaN(m[i][i])) m[i][i] = 1;
+        if (Math.abs(m[i][i] - 1) > TOLERANCE) return "diagonal entries must be 1";
+        for (let j = 0; j < i; j++) {
+            const a = m[i][j];
+            const b = m[j][i];
+            if (isNaN(a) && isNaN(b)) return `missing correlation for row ${i + 1}, column ${j + 1}`;
+            if (!isNaN(a) && !isNaN(b) && Math.abs(a - b) > TOLERANCE) {
+                return `matrix is not symmetric at row ${i + 1}, column ${j + 1}`;
+            }
+            const r = isNaN(a) ? b : a;
+            if (r < -1 || r > 1) return "correlations must be between -1 and 1";
+            m[i][j] = r;
+            m[j][i] = r;
+        }
+    }
+    return m;
+}
+
+// ── Linear algebra ──────────────────────────────────────────────
+
+/** Lower-triangular Cholesky factor, or null if not positive definite */
+export function cholesky(a: number[][]): number[][] | null {
+    const k = a.length;
+    const l: number[][] = a.map(() => new Array(k).fill(0));
+    for (let i = 0; i < k; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = a[i][j];
+            for (let p = 0; p < j; p++) sum -= l[i][p] * l[j][p];
+            if (i === j) {
+                if (sum <= 0) return null;
+                l[i][i] = Math.sqrt(sum);
+            } else {
+                l[i][j] = sum / l[j][j];
+            }
+        }
+    }
+    return l;
+}
+
+/** Inverse of a lower-triangular matrix by forward substitution */
+function invertLower(l: number[][]): number[][] {
+    const k = l.length;
+    const inv: number[][] = l.map(() => new Array(k).fill(0));
+    for (let i = 0; i < k; i++) {
+        inv[i][i] = 1 / l[i][i];
+        for (let j = 0; j < i; j++) {
+            let sum = 0;
+            for (let p = j; p < i; p++) sum += l[i][p] * inv[p][j];
+            inv[i][j] = -sum / l[i][i];
+        }
+    }
+    return inv;
+}
+
+function multiply(a: number[][], b: number[][]): number[][] {
+    const k = a.length;
+    const out: number[][] = a.map(() => new Array(k).fill(0));
+    for (let i = 0; i < k; i++) {
+        for (let j = 0; j < k; j++) {
+            let sum = 0;
+            for (let p = 0; p < k; p++) sum += a[i][p] * b[p][j];
+            out[i][j] = sum;
+        }
+    }
+    return out;
+}
+
+/** Eigen-decomposition of a symmetric matrix (cyclic Jacobi) */
+function symmetricEigen(a: number[][]): { values: number[]; vectors: number[][] } {
+    const k = a.length;
+    const m = a.map((row) => row.slice());
+    const v: number[][] = a.map((_, i) => a.map((__, j) => (i === j ? 1 : 0)));
+
+    for (let sweep = 0; sweep < 100; sweep++) {
+        let off = 0;
+        for (let i = 0; i < k; i++) {
+            for (let j = i + 1; j < k; j++) off += m[i][j] * m[i][j];
+        }
+        if (off < 1e-22) break;
+
+        for (let p = 0; p < k; p++) {
+            for (let q = p + 1; q < k; q++) {
+                if (Math.abs(m[p][q]) < 1e-300) continue;
+                const theta = (m[q][q] - m[p][p]) / (2 * m[p][q]);
+                const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+                for (let r = 0; r < k; r++) {
+                    const mrp = m[r][p];
+                    const mrq = m[r][q];
+                    m[r][p] = c * mrp - s * mrq;
+                    m[r][q] = s * mrp + c * mrq;
+                }
+                for (let r = 0; r < k; r++) {
+                    const mpr = m[p][r];
+                    const mqr = m[q][r];
+                    m[p][r] = c * mpr - s * mqr;
+                    m[q][r] = s * mpr + c * mqr;
+                }
+                for (let r = 0; r < k; r++) {
+                    const vrp = v[r][p];
+                    const vrq = v[r][q];
+                    v[r][p] = c * vrp - s * vrq;
+                    v[r][q] = s * vrp + c * vrq;
+                }
+            }
+        }
+    }
+    return { values: m.map((row, i) => row[i]), vectors: v };
+}
+
+/** V · diag(max(λ, floor)) · Vᵀ */
+function clipEigenvalues(a: number[][], floor: number): number[][] {
+    const { values, vectors } = symmetricEigen(a);
+    const k = a.length;
+    const out: number[][] = a.map(() => new Array(k).fill(0));
+    for (let i = 0; i < k; i++) {
+        for (let j = 0; j < k; j++) {
+            let sum = 0;
+            for (let p = 0; p < k; p++) sum += vectors[i][p] * Math.max(values[p], floor) * vectors[j][p];
+            out[i][j] = sum;
+        }
+    }
+    return out;
+}
+
+/**
+ * Nearest positive-definite correlation matrix, by Higham's (2002)
+ * alternating projections with Dykstra's correction, followed by an
+ * eigenvalue floor so the result has a Cholesky factor.
+ */
+export function nearestCorrelationMatrix(a: number[][]): number[][] {
+    const k = a.length;
+    let y = a.map((row) => row.slice());
+    let correction: number[][] = a.map(() => new Array(k).fill(0));
+
+    for (let iter = 0; iter < 200; iter++) {
+        const r = y.map((row, i) => row.map((x, j) => x - correction[i][j]));
+        const x = clipEigenvalues(r, 0);
+        correction = x.map((row, i) => row.map((v, j) => v - r[i][j]));
+        const next = x.map((row, i) => row.map((v, j) => (i === j ? 1 : v)));
+        let change = 0;
+        for (let i = 0; i < k; i++) {
+            for (let j = 0; j < k; j++) change = Math.max(change, Math.abs(next[i][j] - y[i][j]));
+        }
+        y = next;
+        if (change < 1e-10) break;
+    }
+
+    // Floor the eigenvalues, then rescale back to a unit diagonal
+    const floored = clipEigenvalues(y, MIN_EIGENVALUE);
+    const d = floored.map((row, i) => Math.sqrt(row[i]));
+    return floored.map((row, i) => row.map((v, j) => (i === j ? 1 : v / (d[i] * d[j]))));
+}
+
+// ── Resolving matrices against the run's inputs ─────────────────
+
+/**
+ * Combine every registered correlation matrix into one matrix over
+ * the inputs it names.  Pairs not covered by any matrix are
+ * uncorrelated.  Throws on unknown or ambiguous input names and on
+ * conflicting entries; repairs a matrix that is not positive
+ * definite and reports it in the warnings.
+ */
+export function resolveCorrelations(
+    inputs: DistributionInput[],
+    specs: CorrelationMatrix[]
+): ResolvedCorrelation | null {
+    if (specs.length === 0) return null;
+
+    const byName = new Map<string, number>();
+    const duplicates = new Set<string>();
+    inputs.forEach((inp, i) => {
+        const key = inp.name.toLowerCase();
+        if (byName.has(key)) duplicates.add(key);
+        byName.set(key, i);
+    });
+
+    const indices: number[] = [];
+    const position = new Map<number, number>();
+    for (const spec of specs) {
+        for (const name of spec.names) {
+            const key = name.toLowerCase();
+            if (duplicates.has(key)) {
+                throw new Error(`Correlation matrix at ${spec.cellAddress}: more than one input is named "${name}"`);
+            }
+            const idx = byName.get(key);
+            if (idx === undefined) {
+                throw new Error(`Correlation matrix at ${spec.cellAddress}: no input named "${name}"`);
+            }
+            if (!position.has(idx)) {
+                position.set(idx, indices.length);
+                indices.push(idx);
+            }
+        }
+    }
+
+    const k = indices.length;
+    const matrix: number[][] = indices.map((_, i) => indices.map((__, j) => (i === j ? 1 : NaN)));
+    for (const spec of specs) {
+        const pos = spec.names.map((n) => position.get(byName.get(n.toLowerCase())!)!);
+        for (let i = 0; i < pos.length; i++) {
+            for (let j = 0; j < pos.length; j++) {
+                if (i === j) continue;
+                const current = matrix[pos[i]][pos[j]];
+                const r = spec.matrix[i][j];
+                if (!isNaN(current) && Math.abs(current - r) > TOLERANCE) {
+                    throw new Error(
+                        `Conflicting correlations between "${spec.names[i]}" and "${spec.names[j]}"`
+                    );
+                }
+                matrix[pos[i]][pos[j]] = r;
+            }
+        }
+    }
+    for (let i = 0; i < k; i++) {
+        for (let j = 0; j < k; j++) if (isNaN(matrix[i][j])) matrix[i][j] = 0;
+    }
+
+    const warnings: string[] = [];
+    if (cholesky(matrix)) return { indices, matrix, warnings };
+
+    const repaired = nearestCorrelationMatrix(matrix);
+    let worst = 0;
+    for (let i = 0; i < k; i++) {
+        for (let j = 0; j < k; j++) worst = Math.max(worst, Math.abs(repaired[i][j] - matrix[i][j]));
+    }
+    warnings.push(
+        `Correlation matrix is not positive definite; using the nearest valid matrix ` +
+            `(largest change ${worst.toFixed(3)}).`
+    );
+    console.warn(`[MC] ${warnings[warnings.length - 1]}`);
+    return { indices, matrix: repaired, warnings };
+}
+
+// ── Iman-Conover reordering ─────────────────────────────────────
+
+function shuffle<T>(a: T[], rng: RandomStream): T[] {
+    for (let i = a.length - 1; i > 0; i--) {
+        const j = Math.floor(rng.next() * (i + 1));
+        const tmp = a[i];
+        a[i] = a[j];
+        a[j] = tmp;
+    }
+    return a;
+}
+
+/** Pearson correlation matrix of column vectors */
+function correlationOf(columns: number[][]): number[][] {
+    const n = columns[0].length;
+    const centred = columns.map((col) => {
+        const mean = col.reduce((s, x) => s + x, 0) / n;
+        return col.map((x) => x - mean);
+    });
+    const norms = centred.map((col) => Math.sqrt(col.reduce((s, x) => s + x * x, 0)));
+    return centred.map((a, i) =>
+        centred.map((b, j) => {
+            if (i === j) return 1;
+            let sum = 0;
+            for (let r = 0; r < n; r++) sum += a[r] * b[r];
+            return sum / (norms[i] * norms[j]);
+        })
+    );
+}
+
+/**
+ * Reorder each sample column in place so the columns carry the
+ * target rank correlation.  `columns[j]` holds every iteration's
+ * sample of the j-th correlated input; `rng` shuffles the scores.
+ */
+export function imanConover(columns: number[][], target: number[][], rng: RandomStream): void {
+    const k = columns.length;
+    const n = columns[0]?.length ?? 0;
+    if (k < 2 || n < 2) return;
+
+    // Van der Waerden scores, independently shuffled per column
+    const base: number[] = [];
+    for (let r = 0; r < n; r++) base.push(inverseStdNormalCDF((r + 1) / (n + 1)));
+    const scores = columns.map(() => shuffle(base.slice(), rng));
+
+    // Remove the scores' accidental correlation, then impose the target:
+    // t = P · Q⁻¹ · s with P = chol(target), Q = chol(actual)
+    const p = cholesky(target);
+    if (!p) throw new Error("Correlation matrix is not positive definite");
+    const q = cholesky(correlationOf(scores));
+    const transform = q ? multiply(p, invertLower(q)) : p;
+
+    const adjusted: number[][] = columns.map(() => new Array(n));
+    for (let r = 0; r < n; r++) {
+        for (let i = 0; i < k; i++) {
+            let sum = 0;
+            for (let j = 0; j <= i; j++) sum += transform[i][j] * scores[j][r];
+            adjusted[i][r] = sum;
+        }
+    }
+
+    // Give each input's samples the ranks of its adjusted scores
+    for (let i = 0; i < k; i++) {
+        const sorted = columns[i].slice().sort((a, b) => a - b);
+        const order = adjusted[i].map((_, r) => r).sort((a, b) => adjusted[i][a] - adjusted[i][b]);
+        for (let rank = 0; rank < n; rank++) columns[i][order[rank]] = sorted[rank];
+    }
+}
@@ -0,0 +1,271 @@
+/* ---------------------------------------------------------------
+ * density.ts — Probability density and cumulative distribution
+ *              functions.
+ *
+ * Pure math, no Excel dependency.  Used by the distribution
+ * catalogue for sparkline previews and CDF lookups.
+ * --------------------------------------------------------------- */
+
+import { pertShape } from "./distributions";
+import { lnBeta, lnGamma, regularizedBeta, regularizedGamma, stdNormalCDF } from "./special";
+
+// ── Normal ──────────────────────────────────────────────────────
+
+export function normalPDF(x: number, mean: number, stdev: number): number {
+    const z = (x - mean) / stdev;
+    return Math.exp(-0.5 * z * z) / (stdev * Math.sqrt(2 * Math.PI));
+}
+
+export function normalCDF(x: number, mean: number, stdev: number): number {
+    return stdNormalCDF((x - mean) / stdev);
+}
+
+// ── Uniform ─────────────────────────────────────────────────────
+
+export function uniformPDF(x: number, min: number, max: number): number {
+    // A zero-width range has no density; the catalogue rejects min ≥ max
+    if (x < min || x > max || max <= min) return 0;
+    return 1 / (max - min);
+}
+
+export function uniformCDF(x: number, min: number, max: number): number {
+    if (x <= min) return 0;
+    if (x >= max) return 1;
+    return (x - min) / (max - min);
+}
+
+// ── Triangular ──────────────────────────────────────────────────
+
+export function triangularPDF(x: number, min: number, mode: number, max: number): number {
+    if (x < min || x > max || max <= min) return 0;
+    if (x < mode) return (2 * (x - min)) / ((max - min) * (mode - min));
+    if (x > mode) return (2 * (max - x)) / ((max - min) * (max - mode));
+    return 2 / (max - min); // peak — also covers mode at either end
+}
+
+export function triangularCDF(x: number, min: number, mode: number, max: number): number {
+    if (x <= min) return 0;
+    if (x >= max) return 1;
+    if (x <= mode) return ((x - min) * (x - min)) / ((max - min) * (mode - min));
+    return 1 - ((max - x) * (max - x)) / ((max - min) * (max - mode));
+}
+
+// ── Beta / PERT ─────────────────────────────────────────────────
+
+export function betaPDF(x: number, alpha: number, beta: number): number {
+    if (x <= 0 || x >= 1) return 0;
+    return Math.exp((alpha - 1) * Math.log(x) + (beta - 1) * Math.log(1 - x) - lnBeta(alpha, beta));
+}
+
+export function betaCDF(x: number, alpha: number, beta: number): number {
+    return regularizedBeta(x, alpha, beta);
+}
+
+export function pertPDF(x: number, min: number, mode: number, max: number): number {
+    if (x <= min || x >= max) return 0;
+    const range = max - min;
+    const [a, b] = pertShape(min, mode, max);
+    return betaPDF((x - min) / range, a, b) / range;
+}
+
+export function pertCDF(x: number, min: number, mode: number, max: number): number {
+    if (x <= min) return 0;
+    if (x >= max) return 1;
+    const [a, b] = pertShape(min, mode, max);
+    return regularizedBeta((x - min) / (max - min), a, b);
+}
+
+// ── Lognormal ───────────────────────────────────────────────────
+
+export function lognormalPDF(x: number, mu: number, sigma: number): number {
+    if (x <= 0) return 0;
+    const z = (Math.log(x) - mu) / sigma;
+    return Math.exp(-0.5 * z * z) / (x * sigma * Math.sqrt(2 * Math.PI));
+}
+
+export function lognormalCDF(x: number, mu: number, sigma: number): number {
+    if (x <= 0) return 0;
+    return stdNormalCDF((Math.log(x) - mu) / sigma);
+}
+
+// ── Gamma ───────────────────────────────────────────────────────
+
+export function gammaPDF(x: number, shape: number, scale: number): number {
+    if (x < 0) return 0;
+    if (x === 0) return shape === 1 ? 1 / scale : 0;
+    return Math.exp((shape - 1) * Math.log(x) - x / scale - lnGamma(shape) - shape * Math.log(scale));
+}
+
+export function gammaCDF(x: number, shape: number, scale: number): number {
+    return regularizedGamma(shape, x / scale);
+}
+
+// ── Weibull ─────────────────────────────────────────────────────
+
+export function weibullPDF(x: number, shape: number, scale: number): number {
+    if (x < 0) return 0;
+    const t = x / scale;
+    return (shape / scale) * Math.pow(t, shape - 1) * Math.exp(-Math.pow(t, shape));
+}
+
+export function weibullCDF(x: number, shape: number, scale: number): number {
+    if (x <= 0) return 0;
+    return -Math.expm1(-Math.pow(x / scale, shape));
+}
+
+// ── Exponential ─────────────────────────────────────────────────
+
+export function exponentialPDF(x: number, mean: number): number {
+    if (x < 0) return 0;
+    return Math.exp(-x / mean) / mean;
+}
+
+export function exponentialCDF(x: number, mean: number): number {
+    if (x <= 0) return 0;
+    return -Math.expm1(-x / mean);
+}
+
+// ── Student-t ───────────────────────────────────────────────────
+
+export function studentTPDF(x: number, df: number): number {
+    const lnC = lnGamma((df + 1) / 2) - lnGamma(df / 2) - 0.5 * Math.log(df * Math.PI);
+    return Math.exp(lnC - ((df + 1) / 2) * Math.log(1 + (x * x) / df));
+}
+
+export function studentTCDF(x: number, df: number): number {
+    const tail = 0.5 * regularizedBeta(df / (df + x * x), df / 2, 0.5);
+    return x > 0 ? 1 - tail : tail;
+}
+
+// ── Poisson ─────────────────────────────────────────────────────
+
+export function poissonPMF(x: number, lambda: number): number {
+    if (x < 0 || !Number.isInteger(x)) return 0;
+    return Math.exp(x * Math.log(lambda) - lambda - lnGamma(x + 1));
+}
+
+export function poissonCDF(x: number, lambda: number): number {
+    if (x < 0) return 0;
+    // P(X ≤ k) = Q(k + 1, λ)
+    return 1 - regularizedGamma(Math.floor(x) + 1, lambda);
+}
+
+// ── Binomial ────────────────────────────────────────────────────
+
+export function binomialPMF(x: number, n: number, p: number): number {
+    if (x < 0 || x > n || !Number.isInteger(x)) return 0;
+    if (p === 0) return x === 0 ? 1 : 0;
+    if (p === 1) return x === n ? 1 : 0;
+    const lnChoose = lnGamma(n + 1) - lnGamma(x + 1) - lnGamma(n - x + 1);
+    return Math.exp(lnChoose + x * Math.log(p) + (n - x) * Math.log(1 - p));
+}
+
+export function binomialCDF(x: number, n: number, p: number): number {
+    if (x < 0) return 0;
+    const k = Math.floor(x);
+    if (k >= n) return 1;
+    // P(X ≤ k) = I_{1-p}(n - k, k + 1)
+    return regularizedBeta(1 - p, n - k, k + 1);
+}
+
+// ── Bernoulli ───────────────────────────────────────────────────
+
+export function bernoulliPMF(x: number, p: number): number {
+    if (x === 1) return p;
+    if (x === 0) return 1 - p;
+    return 0;
+}
+
+export function bernoulliCDF(x: number, p: number): number {
+    if (x < 0) return 0;
+    if (x < 1) return 1 - p;
+    return 1;
+}
+
+// ── Discrete ────────────────────────────────────────────────────
+
+/** Probability mass at exactly x */
+export function discretePMF(x: number, values: number[], probs: number[]): number {
+    let mass = 0;
+    for (let i = 0; i < values.length; i++) {
+        if (values[i] === x) mass += probs[i];
+    }
+    return mass;
+}
+
+export function discreteCDF(x: number, values: number[], probs: number[]): number {
+    let cumulative = 0;
+    for (let i = 0; i < values.length; i++) {
+        if (values[i] <= x) cumulative += probs[i];
+    }
+    return Math.min(1, cumulative);
+}
+
+// ── Empirical (bootstrap) ───────────────────────────────────────
+
+/** Number of entries below x (or ≤ x when inclusive) in an ascending array */
+function countBelow(sorted: number[], x: number, inclusive: boolean): number {
+    let lo = 0, hi = sorted.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (sorted[mid] < x || (inclusive && sorted[mid] === x)) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
+
+/** Share of observations equal to x; data must be sorted ascending */
+export function empiricalPMF(x: number, data: number[]): number {
+    return (countBelow(data, x, true) - countBelow(data, x, false)) / data.length;
+}
+
+export function empiricalCDF(x: number, data: number[]): number {
+    return countBelow(data, x, true) / data.length;
+}
+
+// ── Cumulative (piecewise-linear CDF) ───────────────────────────
+// xs / ps are the full knot lists: xs[0] = min with ps[0] = 0,
+// xs[last] = max with ps[last] = 1.
+
+export function cumulPDF(x: number, xs: number[], ps: number[]): number {
+    if (x < xs[0] || x > xs[xs.length - 1]) return 0;
+    for (let i = 1; i < xs.length; i++) {
+        if (x <= xs[i]) return (ps[i] - ps[i - 1]) / (xs[i] - xs[i - 1]);
+    }
+    return 0;
+}
+
+export function cumulCDF(x: number, xs: number[], ps: number[]): number {
+    if (x <= xs[0]) return 0;
+    if (x >= xs[xs.length - 1]) return 1;
+    let i = 1;
+    while (x > xs[i]) i++;
+    const t = (x - xs[i - 1]) / (xs[i] - xs[i - 1]);
+    return ps[i - 1] + t * (ps[i] - ps[i - 1]);
+}
+
+// ── General (piecewise-linear density) ──────────────────────────
+// xs / ds are the full knot lists with ds[0] = ds[last] = 0 and the
+// densities scaled so the total area is 1.
+
+export function generalPDF(x: number, xs: number[], ds: number[]): number {
+    if (x <= xs[0] || x >= xs[xs.length - 1]) return 0;
+    let i = 1;
+    while (x > xs[i]) i++;
+    const t = (x - xs[i - 1]) / (xs[i] - xs[i - 1]);
+    return ds[i - 1] + t * (ds[i] - ds[i - 1]);
+}
+
+export function generalCDF(x: number, xs: number[], ds: number[]): number {
+    if (x <= xs[0]) return 0;
+    if (x >= xs[xs.length - 1]) return 1;
+    let area = 0;
+    let i = 1;
+    while (x > xs[i]) {
+        area += 0.5 * (ds[i - 1] + ds[i]) * (xs[i] - xs[i - 1]);
+        i++;
+    }
+    const s = x - xs[i - 1];
+    const slope = (ds[i] - ds[i - 1]) / (xs[i] - xs[i - 1]);
+    return Math.min(1, area + ds[i - 1] * s + 0.5 * slope * s * s);
+}
@@ -2,82 +2,20 @@
  * distributions.ts — Probability distribution samplers
  *
  * Pure math functions — no Excel dependency.  Each sampler draws a
- * single random value from the specified distribution.  We also
- * provide the expected (static) value for each distribution, which
- * the custom function returns when the simulation is NOT running.
+ * single random value from the specified distribution, using the
+ * random stream it is given (see rng.ts).  We also provide the
+ * expected (static) value for each distribution, which the custom
+ * function returns when the simulation is NOT running.
  * --------------------------------------------------------------- */
 
-// ── Seedable PRNG (xoshiro128**) ─────────────────────────────────
-// Allows reproducible simulation runs when a seed is set.
-
-let _s = new Uint32Array(4);
-
-export function seedRng(seed: number): void {
-    // SplitMix32 to expand seed into 4 state words
-    let s = seed >>> 0;
-    for (let i = 0; i < 4; i++) {
-        s += 0x9e3779b9;
-        let t = s ^ (s >>> 16);
-        t = Math.imul(t, 0x21f0aaad);
-        t ^= t >>> 15;
-        t = Math.imul(t, 0x735a2d97);
-        t ^= t >>> 15;
-        _s[i] = t >>> 0;
-    }
-}
-
-/** Return a uniform random float in [0, 1) using xoshiro128** */
-function xoshiro(): number {
-    const r = Math.imul(_s[1] * 5, 7);
-    const result = ((r << 9) | (r >>> 23)) * 9;
-    const t = _s[1] << 9;
-    _s[2] ^= _s[0];
-    _s[3] ^= _s[1];
-    _s[1] ^= _s[2];
-    _s[0] ^= _s[3];
-    _s[2] ^= t;
-    _s[3] = (_s[3] << 11) | (_s[3] >>> 21);
-    return (result >>> 0) / 4294967296;
-}
-
-let useSeededRng = false;
-
-export function setUseSeededRng(flag: boolean): void {
-    useSeededRng = flag;
-}
-
-/** Uniform [0, 1) — delegates to seeded or Math.random */
-function rand(): number {
-    return useSeededRng ? xoshiro() : Math.random();
-}
-
-// ── Box-Muller for Normal distribution ───────────────────────────
-
-let _hasSpare = false;
-let _spare = 0;
-
-export function sampleStdNormal(): number {
-    if (_hasSpare) {
-        _hasSpare = false;
-        return _spare;
-    }
-    let u: number, v: number, s: number;
-    do {
-        u = rand() * 2 - 1;
-        v = rand() * 2 - 1;
-        s = u * u + v * v;
-    } while (s >= 1 || s === 0);
-    const mul = Math.sqrt(-2 * Math.log(s) / s);
-    _spare = v * mul;
-    _hasSpare = true;
-    return u * mul;
-}
+import { RandomStream } from "./types";
+import { lnGamma } from "./special";
 
 // ── Distribution Samplers ────────────────────────────────────────
 
 /** Normal(mean, stdev) */
-export function sampleNormal(mean: number, stdev: number): number {
-    return mean + stdev * sampleStdNormal();
+export function sampleNormal(rng: RandomStream, mean: number, stdev: number): number {
+    return mean + stdev * rng.normal();
 }
 
 export function staticNormal(mean: number, _stdev: number): number {
@@ -85,8 +23,8 @@ export function staticNormal(mean: number, _stdev: number): number {
 }
 
 /** Uniform(min, max) */
-export function sampleUniform(min: number, max: number): number {
-    return min + rand() * (max - min);
+export function sampleUniform(rng: RandomStream, min: number, max: number): number {
+    return min + rng.next() * (max - min);
 }
 
 export function staticUniform(min: number, max: number): number {
@@ -94,8 +32,8 @@ export function staticUniform(min: number, max: number): number {
 }
 
 /** Triangular(min, mode, max) */
-export function sampleTriangular(min: number, mode: number, max: number): number {
-    const u = rand();
+export function sampleTriangular(rng: RandomStream, min: number, mode: number, max: number): number {
+    const u = rng.next();
     const fc = (mode - min) / (max - min);
     if (u < fc) {
         return min + Math.sqrt(u * (max - min) * (mode - min));
@@ -107,26 +45,19 @@ export function staticTriangular(_min: number, mode: number, _max: number): numb
     return mode;
 }
 
-/** PERT(min, mode, max) — Beta-distributed with shape from PERT formula */
-export function samplePERT(min: number, mode: number, max: number): number {
+/** Beta shape parameters [α, β] of PERT(min, mode, max) */
+export function pertShape(min: number, mode: number, max: number): [number, number] {
     const range = max - min;
-    if (range <= 0) return mode;
-    const mu = (min + 4 * mode + max) / 6;
-    const alpha1 = (mu - min) * (2 * mode - min - max) / ((mode - mu) * (max - min));
-    let a: number, b: number;
-    if (alpha1 > 0) {
-        a = alpha1;
-        b = a * (max - mu) / (mu - min);
-    } else {
-        // Fallback: use lambda=4 parameterisation
-        a = 1 + 4 * (mu - min) / range;
-        b = 1 + 4 * (max - mu) / range;
-    }
-    // Ensure valid shape params
-    a = Math.max(a, 0.5);
-    b = Math.max(b, 0.5);
-    const betaSample = sampleBeta(a, b);
-    return min + betaSample * range;
+    return [1 + 4 * (mode - min) / range, 1 + 4 * (max - mode) / range];
+}
+
+/**
+ * PERT(min, mode, max) — Beta-distributed with shape from PERT formula.
+ * Expects min < max and min ≤ mode ≤ max (checked by the catalogue).
+ */
+export function samplePERT(rng: RandomStream, min: number, mode: number, max: number): number {
+    const [a, b] = pertShape(min, mode, max);
+    return min + sampleBeta(rng, a, b) * (max - min);
 }
 
 export function staticPERT(min: number, mode: number, max: number): number {
@@ -134,8 +65,8 @@ export function staticPERT(min: number, mode: number, max: number): number {
 }
 
 /** Lognormal(mu, sigma) — parameters of the underlying normal */
-export function sampleLognormal(mu: number, sigma: number): number {
-    return Math.exp(mu + sigma * sampleStdNormal());
+export function sampleLognormal(rng: RandomStream, mu: number, sigma: number): number {
+    return Math.exp(mu + sigma * rng.normal());
 }
 
 export function staticLognormal(mu: number, sigma: number): number {
@@ -143,8 +74,8 @@ export function staticLognormal(mu: number, sigma: number): number {
 }
 
 /** Discrete distribution from arrays of values and probabilities */
-export function sampleDiscrete(values: number[], probs: number[]): number {
-    const u = rand();
+export function sampleDiscrete(rng: RandomStream, values: number[], probs: number[]): number {
+    const u = rng.next();
     let cumulative = 0;
     for (let i = 0; i < values.length; i++) {
         cumulative += probs[i];
@@ -161,12 +92,39 @@ export function staticDiscrete(values: number[], probs: number[]): number {
     return result; // Expected value
 }
 
-// ── Helper: Beta distribution via Gamma samples ─────────────────
+/** Bootstrap: draw one of the observed values, each equally likely */
+export function sampleEmpirical(rng: RandomStream, data: number[]): number {
+    return data[Math.min(data.length - 1, Math.floor(rng.next() * data.length))];
+}
+
+export function staticEmpirical(data: number[]): number {
+    return data.reduce((a, b) => a + b, 0) / data.length;
+}
+
+/** Mean of a piecewise-linear CDF: each segment is uniform */
+export function staticCumul(xs: number[], ps: number[]): number {
+    let result = 0;
+    for (let i = 1; i < xs.length; i++) {
+        result += (ps[i] - ps[i - 1]) * (xs[i - 1] + xs[i]) / 2;
+    }
+    return result;
+}
+
+/** Mean of a normalised piecewise-linear density (trapezoid moments) */
+export function staticGeneral(xs: number[], ds: number[]): number {
+    let result = 0;
+    for (let i = 1; i < xs.length; i++) {
+        const h = xs[i] - xs[i - 1];
+        result += (h / 6) * (ds[i - 1] * (2 * xs[i - 1] + xs[i]) + ds[i] * (xs[i - 1] + 2 * xs[i]));
+    }
+    return result;
+}
 
-function sampleGamma(shape: number, scale: number): number {
+/** Gamma(shape, scale) */
+export function sampleGamma(rng: RandomStream, shape: number, scale: number): number {
     // Marsaglia & Tsang's method for shape >= 1
     if (shape < 1) {
-        return sampleGamma(shape + 1, scale) * Math.pow(rand(), 1 / shape);
+        return sampleGamma(rng, shape + 1, scale) * Math.pow(rng.next(), 1 / shape);
     }
     const d = shape - 1 / 3;
     const c = 1 / Math.sqrt(9 * d);
@@ -174,92 +132,134 @@ function sampleGamma(shape: number, scale: number): number {
     while (true) {
         let x: number, v: number;
         do {
-            x = sampleStdNormal();
+            x = rng.normal();
             v = 1 + c * x;
         } while (v <= 0);
         v = v * v * v;
-        const u = rand();
+        const u = rng.next();
         if (u < 1 - 0.0331 * (x * x) * (x * x)) return d * v * scale;
         if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v * scale;
     }
 }
 
-function sampleBeta(a: number, b: number): number {
-    const x = sampleGamma(a, 1);
-    const y = sampleGamma(b, 1);
+export function staticGamma(shape: number, scale: number): number {
+    return shape * scale;
+}
+
+/** Beta(alpha, beta) on [0, 1], via two Gamma samples */
+export function sampleBeta(rng: RandomStream, a: number, b: number): number {
+    const x = sampleGamma(rng, a, 1);
+    const y = sampleGamma(rng, b, 1);
     return x / (x + y);
 }
 
-// ── Generic sampler dispatcher ──────────────────────────────────
-
-export function sampleDistribution(
-    type: string,
-    params: Record<string, number | number[]>
-): number {
-    switch (type) {
-        case "normal":
-            return sampleNormal(params.mean as number, params.stdev as number);
-        case "uniform":
-            return sampleUniform(params.min as number, params.max as number);
-        case "triangular":
-            return sampleTriangular(
-                params.min as number,
-                params.mode as number,
-                params.max as number
-            );
-        case "pert":
-            return samplePERT(
-                params.min as number,
-                params.mode as number,
-                params.max as number
-            );
-        case "lognormal":
-            return sampleLognormal(params.mu as number, params.sigma as number);
-        case "discrete":
-            return sampleDiscrete(
-                params.values as number[],
-                params.probs as number[]
-            );
-        default:
-            throw new Error(`Unknown distribution: ${type}`);
+export function staticBeta(a: number, b: number): number {
+    return a / (a + b);
+}
+
+/** Weibull(shape, scale) — inverse transform */
+export function sampleWeibull(rng: RandomStream, shape: number, scale: number): number {
+    return scale * Math.pow(-Math.log(1 - rng.next()), 1 / shape);
+}
+
+export function staticWeibull(shape: number, scale: number): number {
+    return scale * Math.exp(lnGamma(1 + 1 / shape));
+}
+
+/** Exponential(mean) — inverse transform */
+export function sampleExponential(rng: RandomStream, mean: number): number {
+    return -mean * Math.log(1 - rng.next());
+}
+
+export function staticExponential(mean: number): number {
+    return mean;
+}
+
+/** Student-t(df) — standard normal over the root of a scaled chi-square */
+export function sampleStudentT(rng: RandomStream, df: number): number {
+    const chi2 = sampleGamma(rng, df / 2, 2);
+    return rng.normal() / Math.sqrt(chi2 / df);
+}
+
+export function staticStudentT(_df: number): number {
+    return 0; // Mean for df > 1, median otherwise
+}
+
+/** Poisson(lambda) */
+export function samplePoisson(rng: RandomStream, lambda: number): number {
+    if (lambda < 30) {
+        // Knuth's multiplication method
+        const limit = Math.exp(-lambda);
+        let k = 0;
+        let prod = rng.next();
+        while (prod > limit) {
+            k++;
+            prod *= rng.next();
+        }
+        return k;
+    }
+    // Hörmann's PTRS transformed rejection for large lambda
+    const slam = Math.sqrt(lambda);
+    const logLam = Math.log(lambda);
+    const b = 0.931 + 2.53 * slam;
+    const a = -0.059 + 0.02483 * b;
+    const invAlpha = 1.1239 + 1.1328 / (b - 3.4);
+    const vr = 0.9277 - 3.6224 / (b - 2);
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+        const u = rng.next() - 0.5;
+        const v = rng.next();
+        const us = 0.5 - Math.abs(u);
+        const k = Math.floor((2 * a / us + b) * u + lambda + 0.43);
+        if (us >= 0.07 && v <= vr) return k;
+        if (k < 0 || (us < 0.013 && v > us)) continue;
+        if (
+            Math.log(v) + Math.log(invAlpha) - Math.log(a / (us * us) + b) <=
+            -lambda + k * logLam - lnGamma(k + 1)
+        ) {
+            return k;
+        }
     }
 }
 
-export function staticValue(
-    type: string,
-    params: Record<string, number | number[]>
-): number {
-    switch (type) {
-        case "normal":
-            return staticNormal(params.mean as number, params.stdev as number);
-        case "uniform":
-            return staticUniform(params.min as number, params.max as number);
-        case "triangular":
-            return staticTriangular(
-                params.min as number,
-                params.mode as number,
-                params.max as number
-            );
-        case "pert":
-            return staticPERT(
-                params.min as number,
-                params.mode as number,
-                params.max as number
-            );
-        case "lognormal":
-            return staticLognormal(params.mu as number, params.sigma as number);
-        case "discrete":
-            return staticDiscrete(
-                params.values as number[],
-                params.probs as number[]
-            );
-        default:
-            throw new Error(`Unknown distribution: ${type}`);
+export function staticPoisson(lambda: number): number {
+    return lambda;
+}
+
+/** Binomial(n, p) */
+export function sampleBinomial(rng: RandomStream, n: number, p: number): number {
+    if (p > 0.5) return n - sampleBinomial(rng, n, 1 - p);
+    if (n <= 40) {
+        // Inversion by sequential search
+        const q = 1 - p;
+        let pmf = Math.pow(q, n);
+        let u = rng.next();
+        let k = 0;
+        while (u > pmf && k < n) {
+            u -= pmf;
+            pmf *= ((n - k) / (k + 1)) * (p / q);
+            k++;
+        }
+        return k;
     }
+    // Devroye's recursive order-statistic method: split on the
+    // median order statistic of n uniforms, which is Beta-distributed
+    const a = 1 + Math.floor(n / 2);
+    const b = n - a + 1;
+    const x = sampleBeta(rng, a, b);
+    if (x >= p) return sampleBinomial(rng, a - 1, p / x);
+    return a + sampleBinomial(rng, b - 1, (p - x) / (1 - x));
+}
+
+export function staticBinomial(n: number, p: number): number {
+    return n * p;
+}
+
+/** Bernoulli(p) — 1 with probability p, else 0 */
+export function sampleBernoulli(rng: RandomStream, p: number): number {
+    return rng.next() < p ? 1 : 0;
 }
 
-/** Reset PRNG spare for a fresh run */
-export function resetSamplerState(): void {
-    _hasSpare = false;
-    _spare = 0;
+export function staticBernoulli(p: number): number {
+    return p;
 }
@@ -0,0 +1,306 @@
+/* ---------------------------------------------------------------
+ * excelHost.ts — ModelHost for the open workbook
+ *
+ * Inputs, outputs and correlations come from the MC.* cells (via
+ * shared storage).  When every formula between them is one the
+ * JavaScript evaluator understands (see model.ts), iterations are
+ * computed from a snapshot of the workbook without touching it.
+ * Otherwise each batch of iterations is queued as write → recalc
+ * → read in Excel and sent in a single sync, and the input
+ * formulas are put back afterwards.  They are journaled in the
+ * workbook first (journal.ts), so a crash mid-run can't lose them.
+ * Excel recalculation is also the fallback when the snapshot can't
+ * be read at all, e.g. a workbook too large for one Office request.
+ *
+ * The compiled model is kept for the whole run, so resuming after a
+ * pause doesn't read the workbook again; with JavaScript evaluation,
+ * edits made while paused apply from the next run.
+ *
+ * Addresses are resolved on their own sheet, so models spread over
+ * several sheets work whichever sheet is active.
+ * --------------------------------------------------------------- */
+
+/* global Excel */
+
+import { DistributionInput, SimulationConfig, SimulationOutput } from "./types";
+import {
+    HostSession,
+    JS_BATCH_SIZE,
+    ModelHost,
+    describeMismatch,
+    toOutputValue,
+    yieldToEventLoop,
+} from "./host";
+import { CompiledModel, NameSnapshot, SheetSnapshot, compileModel, outputSourceAddress } from "./model";
+import { formatAddress, parseAddress, splitSheet } from "./formula";
+import { clearJournal, readJournal, writeJournal } from "./journal";
+import {
+    getInputs,
+    getOutputs,
+    getCorrelations,
+    setSimulating,
+} from "../shared/storage";
+
+interface WorkbookSnapshot {
+    sheets: SheetSnapshot[];
+    names: NameSnapshot[];
+}
+
+/** Formulas and values of every sheet's used range, and all defined names */
+async function loadWorkbookSnapshot(ctx: Excel.RequestContext): Promise<WorkbookSnapshot> {
+    const worksheets = ctx.workbook.worksheets;
+    worksheets.load("items/name");
+    ctx.workbook.names.load("items/name, items/formula");
+    await ctx.sync();
+
+    const used = worksheets.items.map((ws) => {
+        const range = ws.getUsedRangeOrNullObject();
+        range.load("address, formulas, values");
+        ws.names.load("items/name, items/formula");
+        return { ws, range };
+    });
+    await ctx.sync();
+
+    const sheets = used.map(({ ws, range }) =>
+        range.isNullObject
+            ? { name: ws.name, address: "", formulas: [], values: [] }
+            : { name: ws.name, address: range.address, formulas: range.formulas, values: range.values }
+    );
+    const names: NameSnapshot[] = [
+        ...ctx.workbook.names.items.map((n) => ({ name: n.name, formula: String(n.formula) })),
+        ...used.flatMap(({ ws }) =>
+            ws.names.items.map((n) => ({ name: n.name, sheet: ws.name, formula: String(n.formula) }))
+        ),
+    ];
+    return { sheets, names };
+}
+
+/** All defined names, for the recalculation path when there is no snapshot */
+async function loadNames(ctx: Excel.RequestContext): Promise<NameSnapshot[]> {
+    const worksheets = ctx.workbook.worksheets;
+    worksheets.load("items/name");
+    ctx.workbook.names.load("items/name, items/formula");
+    await ctx.sync();
+    worksheets.items.forEach((ws) => ws.names.load("items/name, items/formula"));
+    await ctx.sync();
+    return [
+        ...ctx.workbook.names.items.map((n) => ({ name: n.name, formula: String(n.formula) })),
+        ...worksheets.items.flatMap((ws) =>
+            ws.names.items.map((n) => ({ name: n.name, sheet: ws.name, formula: String(n.formula) }))
+        ),
+    ];
+}
+
+/** Range for an address on its own sheet; unqualified addresses use `fallback` */
+function rangeAt(ctx: Excel.RequestContext, address: string, fallback: Excel.Worksheet): Excel.Range {
+    const [sheet, cells] = splitSheet(address);
+    return sheet === undefined
+        ? fallback.getRange(cells)
+        : ctx.workbook.worksheets.getItem(sheet).getRange(cells);
+}
+
+/** Address including its sheet, so it still means the same cell later */
+function qualify(address: string, sheetName: string): string {
+    const ref = parseAddress(address);
+    return ref ? formatAddress({ ...ref, sheet: ref.sheet ?? sheetName }) : address;
+}
+
+/** Drive the model by writing to the workbook and recalculating */
+async function openRecalcSession(
+    ctx: Excel.RequestContext,
+    sheet: Excel.Worksheet,
+    names: NameSnapshot[],
+    inputs: DistributionInput[],
+    outputs: SimulationOutput[],
+    config: SimulationConfig
+): Promise<HostSession> {
+    // Load original formulas for input cells
+    const inputRanges = inputs.map((inp) => {
+        const range = rangeAt(ctx, inp.cellAddress, sheet);
+        range.load("formulas");
+        return range;
+    });
+
+    // Load output cell formulas so we can parse out the real reference
+    const outputFormulaRanges = outputs.map((out) => {
+        const range = rangeAt(ctx, out.cellAddress, sheet);
+        range.load("formulas");
+        return range;
+    });
+
+    await ctx.sync();
+
+    // Save original formulas
+    const originalFormulas = inputRanges.map(
+        (r) => r.formulas[0][0] as string
+    );
+
+    // ── Journal them before the first write ─────────────────────
+    if (await readJournal(ctx)) {
+        throw new Error(
+            "An interrupted run left input formulas to restore. Restore or discard them first (see the top of the task pane)."
+        );
+    }
+    await writeJournal(
+        ctx,
+        inputs.map((inp, j) => ({
+            address: qualify(inp.cellAddress, sheet.name),
+            formula: originalFormulas[j],
+        }))
+    );
+
+    // Parse MC.OUTPUT formulas to find the real cell references
+    // e.g. "=MC.OUTPUT(Calc!$B$11, \"EV\")" → "Calc!B11"; names
+    // and unqualified references are resolved too.
+    // We read from these native cells instead of the custom function cells
+    const outputReadAddresses = outputs.map((out, idx) => {
+        const formula = outputFormulaRanges[idx].formulas[0][0] as string;
+        console.log(`[MC] Output "${out.name}" formula: ${formula}`);
+        const source = outputSourceAddress(formula, out.cellAddress, names);
+        if (source) {
+            console.log(`[MC] → reading from native cell: ${source}`);
+            return source;
+        }
+        // Fallback: read the output cell itself
+        console.log(`[MC] → no cell ref found, reading output cell directly`);
+        return out.cellAddress;
+    });
+
+    const batchSize = Math.max(1, Math.floor(config.batchSize));
+    console.log(`[MC] Batch size: ${batchSize}`);
+
+    return {
+        evaluation: "excel",
+        batchSize,
+        // Each batch queues write → recalc → read for many iterations
+        // and sends them in a single sync.  Every iteration loads
+        // fresh range proxies, so each read captures the values of
+        // its own recalculation.
+        async evaluate(samples) {
+            const batchReads: Excel.Range[][] = [];
+            for (const row of samples) {
+                for (let j = 0; j < inputs.length; j++) {
+                    inputRanges[j].values = [[row[j]]];
+                }
+
+                // Recalculate only what the new inputs made dirty
+                ctx.application.calculate(Excel.CalculationType.recalculate);
+
+                // Read outputs from the NATIVE referenced cells (not MC.OUTPUT)
+                batchReads.push(
+                    outputReadAddresses.map((addr) => {
+                        const r = rangeAt(ctx, addr, sheet);
+                        r.load("values");
+                        return r;
+                    })
+                );
+            }
+            await ctx.sync();
+            return batchReads.map((reads) => reads.map((r) => toOutputValue(r.values[0][0])));
+        },
+        async restore() {
+            // ── Restore original formulas ───────────────────────
+            for (let j = 0; j < inputs.length; j++) {
+                inputRanges[j].formulas = [[originalFormulas[j]]];
+            }
+            await ctx.sync();
+            await clearJournal(ctx);
+        },
+    };
+}
+
+/**
+ * The workbook compiled for JavaScript evaluation, or why it can't
+ * be, with the names read along the way
+ */
+async function compileWorkbook(
+    sheetName: string,
+    inputs: DistributionInput[],
+    outputs: SimulationOutput[]
+): Promise<{ model: CompiledModel | string; names?: NameSnapshot[] }> {
+    try {
+        // A context of its own, so a failed read leaves the run's untouched
+        const snapshot = await loadWorkbookSnapshot(new Excel.RequestContext());
+        const model = compileModel(
+            snapshot.sheets,
+            snapshot.names,
+            inputs.map((inp) => inp.cellAddress),
+            outputs.map((out) => out.cellAddress),
+            sheetName
+        );
+        return { model, names: snapshot.names };
+    } catch (error) {
+        return { model: `could not read the workbook (${(error as Error).message})` };
+    }
+}
+
+/** ModelHost for the MC.* cells of the open workbook */
+export function createExcelHost(): ModelHost {
+    /** Compiled on the run's first open and kept across pauses */
+    let compiled: CompiledModel | string | null = null;
+
+    return {
+        getInputs,
+        getOutputs,
+        getCorrelations,
+        async open(config, inputs, outputs) {
+            // The run keeps its own lists; cells added or removed
+            // since it started (e.g. while paused) can't join it
+            const problem = describeMismatch(getInputs(), getOutputs(), inputs, outputs);
+            if (problem) throw new Error(`${problem}. Start a new run to include the changes.`);
+
+            const ctx = new Excel.RequestContext();
+            const sheet = ctx.workbook.worksheets.getActiveWorksheet();
+            sheet.load("name");
+            await ctx.sync();
+
+            // ── JavaScript evaluation ───────────────────────────
+            let names: NameSnapshot[] | undefined;
+            if (compiled === null) {
+                ({ model: compiled, names } = await compileWorkbook(sheet.name, inputs, outputs));
+            }
+            const model = compiled;
+            if (typeof model !== "string") {
+                console.log(`[MC] Evaluating ${model.formulaCount} formulas in JavaScript`);
+                return {
+                    evaluation: "javascript",
+                    batchSize: JS_BATCH_SIZE,
+                    async evaluate(samples) {
+                        const rows = samples.map((row) => model.evaluate(row).map(toOutputValue));
+                        await yieldToEventLoop();
+                        return rows;
+                    },
+                    async restore() {
+                        // The workbook was never changed
+                    },
+                };
+            }
+            console.log(`[MC] Falling back to Excel recalculation: ${model}`);
+
+            setSimulating(true);
+            try {
+                const session = await openRecalcSession(
+                    ctx,
+                    sheet,
+                    names ?? (await loadNames(ctx)),
+                    inputs,
+                    outputs,
+                    config
+                );
+                return {
+                    ...session,
+                    async restore() {
+                        try {
+                            await session.restore();
+                        } finally {
+                            setSimulating(false);
+                        }
+                    },
+                };
+            } catch (error) {
+                setSimulating(false);
+                throw error;
+            }
+        },
+    };
+}
@@ -0,0 +1,87 @@
+/* ---------------------------------------------------------------
+ * fit.test.ts — Native parameters from moments or percentiles
+ *
+ * Fitting the moments or percentiles of a large sample must give
+ * back the parameters it was drawn with, exact inputs must give
+ * them back exactly, and inputs no distribution matches must be
+ * refused.
+ * --------------------------------------------------------------- */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { DistributionParams } from "./types";
+import { lognormalFromMoments, normalFromPercentiles, pertFromPercentiles } from "./fit";
+import { getDistribution, getParameterisation } from "./registry";
+import { normalQuantile, pertQuantile } from "./quantile";
+import { computeStatistics, percentile } from "./statistics";
+import { createStream } from "./rng";
+
+const N = 100000;
+
+/** N draws from a family, sorted */
+function draws(type: string, params: DistributionParams, seed: number): Float64Array {
+    const def = getDistribution(type)!;
+    const rng = createStream(seed);
+    return Float64Array.from({ length: N }, () => def.sample(params, rng)).sort();
+}
+
+const close = (actual: number, expected: number, tolerance: number, label: string) =>
+    assert.ok(Math.abs(actual - expected) <= tolerance, `${label}: ${actual}, expected ${expected}`);
+
+test("a lognormal's parameters come back from its sample moments", () => {
+    const sample = computeStatistics(draws("lognormal", { mu: 1, sigma: 0.5 }, 3));
+    const [mu, sigma] = lognormalFromMoments(sample.mean, sample.stdDev)!;
+    close(mu, 1, 0.01, "mu");
+    close(sigma, 0.5, 0.01, "sigma");
+
+    // From the exact moments they come back exactly
+    const mean = Math.exp(1 + 0.5 ** 2 / 2);
+    const stdev = mean * Math.sqrt(Math.expm1(0.5 ** 2));
+    const exact = lognormalFromMoments(mean, stdev)!;
+    close(exact[0], 1, 1e-12, "exact mu");
+    close(exact[1], 0.5, 1e-12, "exact sigma");
+    // A tiny spread is not lost to rounding
+    close(lognormalFromMoments(100, 1e-6)![1], 1e-8, 1e-20, "narrow sigma");
+});
+
+test("a normal's parameters come back from its sample P10 and P90", () => {
+    const sorted = draws("normal", { mean: 50, stdev: 8 }, 5);
+    const [mean, stdev] = normalFromPercentiles(percentile(sorted, 0.1), percentile(sorted, 0.9))!;
+    close(mean, 50, 0.15, "mean");
+    close(stdev, 8, 0.15, "stdev");
+
+    const exact = normalFromPercentiles(normalQuantile(0.1, -3, 0.25), normalQuantile(0.9, -3, 0.25))!;
+    close(exact[0], -3, 1e-12, "exact mean");
+    close(exact[1], 0.25, 1e-12, "exact stdev");
+});
+
+test("a PERT's range comes back from its mode and sample P10 and P90", () => {
+    const sorted = draws("pert", { min: 10, mode: 20, max: 60 }, 7);
+    const [min, max] = pertFromPercentiles(percentile(sorted, 0.1), 20, percentile(sorted, 0.9))!;
+    close(min, 10, 1, "min");
+    close(max, 60, 1, "max");
+
+    for (const [a, m, b] of [[0, 0.5, 1], [10, 20, 60], [-5, -4.9, 0], [100, 199, 200]]) {
+        const fit = pertFromPercentiles(pertQuantile(0.1, a, m, b), m, pertQuantile(0.9, a, m, b))!;
+        const label = `PERT(${a}, ${m}, ${b})`;
+        close(fit[0], a, 1e-6 * (b - a), `${label} min`);
+        close(fit[1], b, 1e-6 * (b - a), `${label} max`);
+    }
+});
+
+test("inputs no distribution matches are refused", () => {
+    for (const [mean, stdev] of [[0, 1], [-5, 1], [5, 0], [5, -1], [NaN, 1], [Infinity, 1], [5, Infinity]]) {
+        assert.equal(lognormalFromMoments(mean, stdev), null, `lognormal mean ${mean}, stdev ${stdev}`);
+    }
+    for (const [p10, p90] of [[5, 5], [6, 5], [NaN, 5], [-Infinity, 5]]) {
+        assert.equal(normalFromPercentiles(p10, p90), null, `normal P10 ${p10}, P90 ${p90}`);
+    }
+    // No PERT puts its mode this far outside its P10–P90, and P10 must be below P90
+    for (const [p10, mode, p90] of [[10, 0, 20], [10, 40, 20], [20, 15, 10], [10, 10, 10], [10, 15, Infinity], [10, NaN, 20]]) {
+        assert.equal(pertFromPercentiles(p10, mode, p90), null, `PERT ${p10}, ${mode}, ${p90}`);
+    }
+    // The entry points report them rather than resolving to invalid parameters
+    assert.equal(getParameterisation("LOGNORMAL2")!.resolve({ mean: 0, stdev: 1 }), "mean and stdev must be greater than 0");
+    assert.equal(getParameterisation("NORMALALT")!.resolve({ p10: 5, p90: 5 }), "p10 must be less than p90");
+    assert.equal(getParameterisation("PERTALT")!.resolve({ p10: 10, mode: 40, p90: 20 }), "no PERT has this mode with these percentiles");
+});
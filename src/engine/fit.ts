@@ -0,0 +1,60 @@
+/* ---------------------------------------------------------------
+ * fit.ts — Native parameters from moments or percentiles
+ *
+ * Pure math, no Excel dependency.  Used by the alternative
+ * parameterisations in the catalogue (MC.LOGNORMAL2, MC.NORMALALT,
+ * MC.PERTALT, …) to turn what experts quote into what the
+ * samplers take.
+ * --------------------------------------------------------------- */
+
+import { inverseStdNormalCDF } from "./special";
+import { pertQuantile } from "./quantile";
+
+/**
+ * μ and σ of the underlying normal for a lognormal with the given
+ * arithmetic mean and stdev, or null unless both are positive
+ */
+export function lognormalFromMoments(mean: number, stdev: number): [number, number] | null {
+    if (!(mean > 0 && stdev > 0 && isFinite(mean) && isFinite(stdev))) return null;
+    const sigma2 = Math.log1p((stdev / mean) ** 2);
+    return [Math.log(mean) - sigma2 / 2, Math.sqrt(sigma2)];
+}
+
+/** Mean and stdev of the normal whose P10 and P90 are given, or null unless P10 < P90 */
+export function normalFromPercentiles(p10: number, p90: number): [number, number] | null {
+    if (!(p10 < p90 && isFinite(p10) && isFinite(p90))) return null;
+    const z90 = inverseStdNormalCDF(0.9);
+    return [(p10 + p90) / 2, (p90 - p10) / (2 * z90)];
+}
+
+/**
+ * Min and max of the PERT with the given mode whose P10 and P90 are
+ * given, or null if no PERT matches (or P10 is not below P90).
+ *
+ * PERT is a location-scale family once the relative mode position
+ * r = (mode − min) / (max − min) is fixed, so only r has to be
+ * searched: it must reproduce where the mode sits between P10 and
+ * P90.  Range and min then follow directly.
+ */
+export function pertFromPercentiles(p10: number, mode: number, p90: number): [number, number] | null {
+    if (!(p10 < p90 && isFinite(p10) && isFinite(p90) && isFinite(mode))) return null;
+    const target = (mode - p10) / (p90 - p10);
+    const position = (r: number) => {
+        const q10 = pertQuantile(0.1, 0, r, 1);
+        const q90 = pertQuantile(0.9, 0, r, 1);
+        return [(r - q10) / (q90 - q10), q10, q90];
+    };
+
+    let lo = 0, hi = 1;
+    if (target < position(lo)[0] || target > position(hi)[0]) return null;
+    for (let i = 0; i < 60; i++) {
+        const mid = (lo + hi) / 2;
+        if (position(mid)[0] < target) lo = mid;
+        else hi = mid;
+    }
+
+    const [, q10, q90] = position((lo + hi) / 2);
+    const range = (p90 - p10) / (q90 - q10);
+    const min = p10 - range * q10;
+    return [min, min + range];
+}
@@ -0,0 +1,104 @@
+/* ---------------------------------------------------------------
+ * formula.test.ts — Parsing formulas and addresses
+ *
+ * Checks the syntax trees for Excel's operator precedence, the
+ * reference forms, and that unsupported constructs are rejected
+ * with an error naming them.
+ * --------------------------------------------------------------- */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { FormulaNode, formatAddress, parseAddress, parseFormula, parseRangeAddress } from "./formula";
+
+/** A tree written back as fully parenthesised text, for compact assertions */
+function show(node: FormulaNode): string {
+    switch (node.kind) {
+        case "number":
+            return String(node.value);
+        case "string":
+            return JSON.stringify(node.value);
+        case "boolean":
+            return node.value ? "TRUE" : "FALSE";
+        case "missing":
+            return "_";
+        case "ref":
+            return formatAddress(node);
+        case "range":
+            return `${formatAddress({ sheet: node.sheet, row: node.row1, col: node.col1 })}:${formatAddress({
+                row: node.row2,
+                col: node.col2,
+            })}`;
+        case "name":
+            return `name:${node.name}`;
+        case "negate":
+            return `(-${show(node.arg)})`;
+        case "percent":
+            return `(${show(node.arg)}%)`;
+        case "binary":
+            return `(${show(node.left)}${node.op}${show(node.right)})`;
+        case "call":
+            return `${node.name}(${node.args.map(show).join(",")})`;
+    }
+}
+
+const parse = (formula: string) => show(parseFormula(formula));
+
+test("operators follow Excel's precedence", () => {
+    assert.equal(parse("=1+2*3"), "(1+(2*3))");
+    assert.equal(parse("=(1+2)*3"), "((1+2)*3)");
+    assert.equal(parse("=1-2-3"), "((1-2)-3)");
+    assert.equal(parse("=8/4/2"), "((8/4)/2)");
+    assert.equal(parse("=2^3^2"), "((2^3)^2)");
+    assert.equal(parse("=1+2&3"), "((1+2)&3)");
+    assert.equal(parse("=1&2=3"), "((1&2)=3)");
+    assert.equal(parse("=A1<=B1"), "(A1<=B1)");
+    assert.equal(parse("=A1<>B1"), "(A1<>B1)");
+});
+
+test("unary minus binds tighter than ^, and % applies before ^", () => {
+    assert.equal(parse("=-2^2"), "((-2)^2)");
+    assert.equal(parse("=2^-1"), "(2^(-1))");
+    assert.equal(parse("=--A1"), "(-(-A1))");
+    assert.equal(parse("=+A1"), "A1");
+    assert.equal(parse("=50%^2"), "((50%)^2)");
+    assert.equal(parse("=1-2"), "(1-2)");
+});
+
+test("literals", () => {
+    assert.equal(parse("=1.5E+3"), "1500");
+    assert.equal(parse("=.25"), "0.25");
+    assert.equal(parse('="say ""hi"""'), '"say \\"hi\\""');
+    assert.equal(parse("=true"), "TRUE");
+    assert.equal(parse("=FALSE"), "FALSE");
+});
+
+test("references, names and calls", () => {
+    assert.equal(parse("=$B$2"), "B2");
+    assert.equal(parse("=Calc!B2"), "Calc!B2");
+    assert.equal(parse("='My Sheet'!B2:A1"), "'My Sheet'!A1:B2");
+    assert.equal(parse("='It''s'!C3"), "'It''s'!C3");
+    assert.equal(parse("=Rate*2"), "(name:Rate*2)");
+    assert.equal(parse("=sum(A1:A3, 2)"), "SUM(A1:A3,2)");
+    assert.equal(parse("=IF(A1,,3)"), "IF(A1,_,3)");
+    assert.equal(parse("=_xlfn.NORM.S.DIST(1)"), "NORM.S.DIST(1)");
+    assert.equal(parse("=PI()"), "PI()");
+});
+
+test("unsupported constructs are rejected by name", () => {
+    assert.throws(() => parseFormula("={1,2}"), /Array constants/);
+    assert.throws(() => parseFormula("=#N/A"), /Error literals/);
+    assert.throws(() => parseFormula("=A:A"), /Unsupported reference or name "A"/);
+    assert.throws(() => parseFormula('="open'), /Unterminated text/);
+    assert.throws(() => parseFormula("=(1+2"), /Expected "\)"/);
+    assert.throws(() => parseFormula("=1+"), /Unexpected end/);
+    assert.throws(() => parseFormula("=1 2"), /Unexpected "2"/);
+});
+
+test("addresses", () => {
+    assert.deepEqual(parseAddress("Sheet1!$B$2"), { sheet: "Sheet1", row: 1, col: 1 });
+    assert.deepEqual(parseAddress("AA10"), { sheet: undefined, row: 9, col: 26 });
+    assert.equal(parseAddress("Sheet1!B"), null);
+    assert.deepEqual(parseRangeAddress("'A b'!C3:A1"), { sheet: "A b", row1: 0, col1: 0, row2: 2, col2: 2 });
+    assert.equal(formatAddress({ sheet: "My Sheet", row: 0, col: 27 }), "'My Sheet'!AB1");
+    assert.equal(formatAddress({ row: 4, col: 0 }), "A5");
+});
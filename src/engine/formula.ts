@@ -0,0 +1,310 @@
+/* ---------------------------------------------------------------
+ * formula.ts — Excel formula parser
+ *
+ * Turns the text of an ordinary worksheet formula into a syntax
+ * tree that model.ts can evaluate without Excel.  Covers literals,
+ * cell and range references (optionally sheet-qualified), the
+ * arithmetic, text and comparison operators, and function calls.
+ * Defined names are kept as names for the caller to resolve.
+ * Anything else — array constants, whole-column references,
+ * structured references — is rejected with an Error naming the
+ * construct, so the caller can fall back to Excel.
+ *
+ * Pure parsing, no Excel dependency.
+ * --------------------------------------------------------------- */
+
+/** A single cell, 0-based; `sheet` is absent for unqualified references */
+export interface CellRef {
+    sheet?: string;
+    row: number;
+    col: number;
+}
+
+/** A rectangular block of cells, 0-based and inclusive */
+export interface RangeRef {
+    sheet?: string;
+    row1: number;
+    col1: number;
+    row2: number;
+    col2: number;
+}
+
+export type BinaryOperator =
+    | "+" | "-" | "*" | "/" | "^" | "&"
+    | "=" | "<>" | "<" | ">" | "<=" | ">=";
+
+export type FormulaNode =
+    | { kind: "number"; value: number }
+    | { kind: "string"; value: string }
+    | { kind: "boolean"; value: boolean }
+    | { kind: "missing" }
+    | ({ kind: "ref" } & CellRef)
+    | ({ kind: "range" } & RangeRef)
+    | { kind: "name"; name: string }
+    | { kind: "negate"; arg: FormulaNode }
+    | { kind: "percent"; arg: FormulaNode }
+    | { kind: "binary"; op: BinaryOperator; left: FormulaNode; right: FormulaNode }
+    | { kind: "call"; name: string; args: FormulaNode[] };
+
+// ── Addresses ───────────────────────────────────────────────────
+
+const CELL = /^\$?([A-Za-z]{1,3})\$?(\d+)$/;
+
+/** 0-based index of a column given by letters ("A" → 0, "AA" → 26) */
+export function columnIndex(letters: string): number {
+    let n = 0;
+    for (const ch of letters.toUpperCase()) n = n * 26 + (ch.charCodeAt(0) - 64);
+    return n - 1;
+}
+
+/** Split "Sheet1!B2" / "'My Sheet'!B2" into sheet name and the rest */
+export function splitSheet(address: string): [string | undefined, string] {
+    const bang = address.lastIndexOf("!");
+    if (bang < 0) return [undefined, address];
+    let sheet = address.slice(0, bang);
+    if (sheet.startsWith("'") && sheet.endsWith("'")) {
+        sheet = sheet.slice(1, -1).replace(/''/g, "'");
+    }
+    return [sheet, address.slice(bang + 1)];
+}
+
+/** A1-style address of a cell, quoting the sheet name when needed */
+export function formatAddress(ref: CellRef): string {
+    let letters = "";
+    for (let c = ref.col + 1; c > 0; c = Math.floor((c - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((c - 1) % 26)) + letters;
+    }
+    const cell = `${letters}${ref.row + 1}`;
+    if (ref.sheet === undefined) return cell;
+    const sheet = /^[A-Za-z_][A-Za-z0-9_.]*$/.test(ref.sheet)
+        ? ref.sheet
+        : `'${ref.sheet.replace(/'/g, "''")}'`;
+    return `${sheet}!${cell}`;
+}
+
+function parseCell(text: string): { row: number; col: number } | null {
+    const m = CELL.exec(text);
+    if (!m) return null;
+    return { row: parseInt(m[2], 10) - 1, col: columnIndex(m[1]) };
+}
+
+/** Parse an A1-style address such as "Sheet1!$B$2", or null */
+export function parseAddress(address: string): CellRef | null {
+    const [sheet, rest] = splitSheet(address.trim());
+    const cell = parseCell(rest);
+    return cell && { sheet, ...cell };
+}
+
+/** Parse an A1-style range such as "Sheet1!A1:F20" (a single cell is a 1×1 range), or null */
+export function parseRangeAddress(address: string): RangeRef | null {
+    const [sheet, rest] = splitSheet(address.trim());
+    const [from, to = from] = rest.split(":");
+    const a = parseCell(from);
+    const b = parseCell(to);
+    if (!a || !b) return null;
+    return {
+        sheet,
+        row1: Math.min(a.row, b.row),
+        col1: Math.min(a.col, b.col),
+        row2: Math.max(a.row, b.row),
+        col2: Math.max(a.col, b.col),
+    };
+}
+
+// ── Parser ──────────────────────────────────────────────────────
+
+const COMPARISONS: BinaryOperator[] = ["<=", ">=", "<>", "=", "<", ">"];
+
+/**
+ * Parse a formula (with or without the leading "=").  Operator
+ * precedence follows Excel: negation, %, ^, * and /, + and -, &,
+ * then comparisons — so -2^2 is 4, as in Excel.
+ */
+export function parseFormula(formula: string): FormulaNode {
+    const src = formula.startsWith("=") ? formula.slice(1) : formula;
+    let pos = 0;
+
+    const fail = (what: string): never => {
+        throw new Error(`${what} at position ${pos + 1} of "${formula}"`);
+    };
+    const skipSpaces = () => {
+        while (pos < src.length && /\s/.test(src[pos])) pos++;
+    };
+    const peek = (text: string): boolean => {
+        skipSpaces();
+        return src.startsWith(text, pos);
+    };
+    const accept = (text: string): boolean => {
+        if (!peek(text)) return false;
+        pos += text.length;
+        return true;
+    };
+    const expect = (text: string) => {
+        if (!accept(text)) fail(`Expected "${text}"`);
+    };
+
+    function comparison(): FormulaNode {
+        let left = concatenation();
+        for (;;) {
+            const op = COMPARISONS.find((c) => peek(c));
+            if (!op) return left;
+            pos += op.length;
+            left = { kind: "binary", op, left, right: concatenation() };
+        }
+    }
+
+    function concatenation(): FormulaNode {
+        let left = additive();
+        while (accept("&")) left = { kind: "binary", op: "&", left, right: additive() };
+        return left;
+    }
+
+    function additive(): FormulaNode {
+        let left = multiplicative();
+        for (;;) {
+            if (accept("+")) left = { kind: "binary", op: "+", left, right: multiplicative() };
+            else if (accept("-")) left = { kind: "binary", op: "-", left, right: multiplicative() };
+            else return left;
+        }
+    }
+
+    function multiplicative(): FormulaNode {
+        let left = power();
+        for (;;) {
+            if (accept("*")) left = { kind: "binary", op: "*", left, right: power() };
+            else if (accept("/")) left = { kind: "binary", op: "/", left, right: power() };
+            else return left;
+        }
+    }
+
+    function power(): FormulaNode {
+        let left = unary();
+        while (accept("^")) left = { kind: "binary", op: "^", left, right: unary() };
+        return left;
+    }
+
+    function unary(): FormulaNode {
+        if (accept("-")) return { kind: "negate", arg: unary() };
+        if (accept("+")) return unary();
+        let node = primary();
+        while (accept("%")) node = { kind: "percent", arg: node };
+        return node;
+    }
+
+    function primary(): FormulaNode {
+        skipSpaces();
+        const ch = src[pos];
+        if (ch === undefined) return fail("Unexpected end of formula");
+
+        if (ch === "(") {
+            pos++;
+            const inner = comparison();
+            expect(")");
+            return inner;
+        }
+        if (ch === '"') return stringLiteral();
+        if (/[0-9.]/.test(ch)) return numberLiteral();
+        if (ch === "{") return fail("Array constants are not supported");
+        if (ch === "#") return fail("Error literals are not supported");
+        if (ch === "'") return reference(quotedSheet());
+        if (/[A-Za-z_$]/.test(ch)) return identifier();
+        return fail(`Unexpected "${ch}"`);
+    }
+
+    function stringLiteral(): FormulaNode {
+        let value = "";
+        pos++;
+        for (;;) {
+            if (pos >= src.length) fail("Unterminated text");
+            if (src[pos] === '"') {
+                if (src[pos + 1] !== '"') break;
+                pos++;
+            }
+            value += src[pos++];
+        }
+        pos++;
+        return { kind: "string", value };
+    }
+
+    function numberLiteral(): FormulaNode {
+        const m = /^(\d+\.?\d*|\.\d+)(E[+-]?\d+)?/i.exec(src.slice(pos));
+        if (!m) return fail("Malformed number");
+        pos += m[0].length;
+        return { kind: "number", value: parseFloat(m[0]) };
+    }
+
+    function quotedSheet(): string {
+        const m = /^'((?:[^']|'')+)'!/.exec(src.slice(pos));
+        if (!m) return fail("Malformed sheet reference");
+        pos += m[0].length;
+        return m[1].replace(/''/g, "'");
+    }
+
+    /** Function call, TRUE/FALSE, a defined name, or a (possibly sheet-qualified) reference */
+    function identifier(): FormulaNode {
+        const m = /^[A-Za-z_$][A-Za-z0-9_.$]*/.exec(src.slice(pos));
+        const word = m![0];
+        const after = src.slice(pos + word.length);
+        if (/^\s*\(/.test(after)) {
+            pos += word.length;
+            return call(word);
+        }
+        if (after.startsWith("!")) {
+            pos += word.length + 1;
+            return reference(word);
+        }
+        const upper = word.toUpperCase();
+        if ((upper === "TRUE" || upper === "FALSE") && !after.startsWith(":")) {
+            pos += word.length;
+            return { kind: "boolean", value: upper === "TRUE" };
+        }
+        if (!CELL.test(word) && !/^\s*:/.test(after)) {
+            pos += word.length;
+            return { kind: "name", name: word };
+        }
+        return reference(undefined);
+    }
+
+    function cellAt(): { row: number; col: number } {
+        const m = /^\$?[A-Za-z]{1,3}\$?\d+(?![A-Za-z0-9_.(])/.exec(src.slice(pos));
+        const cell = m && parseCell(m[0]);
+        if (!cell) {
+            const word = /^[^\s,():&+\-*/^=<>%]*/.exec(src.slice(pos))![0];
+            return fail(`Unsupported reference or name "${word}"`);
+        }
+        pos += m![0].length;
+        return cell;
+    }
+
+    function reference(sheet: string | undefined): FormulaNode {
+        const from = cellAt();
+        if (!accept(":")) return { kind: "ref", sheet, ...from };
+        skipSpaces();
+        const to = cellAt();
+        return {
+            kind: "range",
+            sheet,
+            row1: Math.min(from.row, to.row),
+            col1: Math.min(from.col, to.col),
+            row2: Math.max(from.row, to.row),
+            col2: Math.max(from.col, to.col),
+        };
+    }
+
+    function call(word: string): FormulaNode {
+        const name = word.toUpperCase().replace(/^_XLFN\.|^_XLWS\./, "");
+        expect("(");
+        const args: FormulaNode[] = [];
+        if (accept(")")) return { kind: "call", name, args };
+        for (;;) {
+            args.push(peek(",") || peek(")") ? { kind: "missing" } : comparison());
+            if (accept(")")) return { kind: "call", name, args };
+            expect(",");
+        }
+    }
+
+    const tree = comparison();
+    skipSpaces();
+    if (pos < src.length) fail(`Unexpected "${src[pos]}"`);
+    return tree;
+}
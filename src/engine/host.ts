@@ -0,0 +1,176 @@
+/* ---------------------------------------------------------------
+ * host.ts — Where the simulated model lives
+ *
+ * The simulator samples inputs and analyses outputs; a ModelHost
+ * supplies the model's inputs, outputs and correlations and turns
+ * each iteration's samples into output values.  excelHost.ts drives
+ * a workbook; createFunctionHost below wraps a plain JavaScript
+ * function, for other tools and for offline runs.
+ * --------------------------------------------------------------- */
+
+import {
+    CorrelationMatrix,
+    DistributionInput,
+    DistributionModifiers,
+    DistributionParams,
+    DistributionType,
+    EvaluationMode,
+    OutputValue,
+    SimulationConfig,
+    SimulationOutput,
+} from "./types";
+import { getDistribution } from "./registry";
+import { hasModifiers, validateModifiers } from "./modifiers";
+
+export interface ModelHost {
+    getInputs(): DistributionInput[];
+    getOutputs(): SimulationOutput[];
+    getCorrelations(): CorrelationMatrix[];
+    /**
+     * Get ready to evaluate iterations of exactly these inputs and
+     * outputs — the run's own lists, taken from getInputs() and
+     * getOutputs() when it started.  Called when a run starts and
+     * again when it resumes; rejects if the model no longer has
+     * exactly those cells.
+     */
+    open(
+        config: SimulationConfig,
+        inputs: DistributionInput[],
+        outputs: SimulationOutput[]
+    ): Promise<HostSession>;
+}
+
+/** One run's connection to the model */
+export interface HostSession {
+    /** How iterations are computed */
+    evaluation: EvaluationMode;
+    /** Iterations to pass per call to evaluate */
+    batchSize: number;
+    /**
+     * Write each row of input samples (in the order of open()'s
+     * inputs), recalculate, and read the outputs (in the order of
+     * open()'s outputs).
+     * Failed outputs come back as the error or text they showed.
+     */
+    evaluate(samples: number[][]): Promise<OutputValue[][]>;
+    /** Put the model back the way it was; always called, even after errors */
+    restore(): Promise<void>;
+}
+
+/** Iterations evaluated in JavaScript between yields to the event loop */
+export const JS_BATCH_SIZE = 1000;
+
+/**
+ * An output value as the simulator sees it: numbers pass through,
+ * blanks count as 0 and TRUE/FALSE as 1/0, as in Excel arithmetic.
+ * Anything else — error values, text, NaN or infinity — is a failure
+ * and comes back as text.
+ */
+export function toOutputValue(val: unknown): OutputValue {
+    if (typeof val === "number") return Number.isFinite(val) ? val : "#NUM!";
+    if (typeof val === "boolean") return val ? 1 : 0;
+    if (val === null || val === undefined || val === "") return 0;
+    return String(val);
+}
+
+/** Wait a tick so a UI can repaint and see Cancel between JavaScript batches */
+export function yieldToEventLoop(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * How the model's current inputs and outputs differ from a run's
+ * lists (by id and cell), or null if they are the same cells.
+ */
+export function describeMismatch(
+    currentInputs: DistributionInput[],
+    currentOutputs: SimulationOutput[],
+    runInputs: DistributionInput[],
+    runOutputs: SimulationOutput[]
+): string | null {
+    const key = (cell: { id: string; cellAddress: string }) => `${cell.id}\u0000${cell.cellAddress}`;
+    const diff = (kind: string, current: (DistributionInput | SimulationOutput)[], run: typeof current) => {
+        const now = new Set(current.map(key));
+        const then = new Set(run.map(key));
+        const removed = run.filter((c) => !now.has(key(c))).map((c) => c.name);
+        const added = current.filter((c) => !then.has(key(c))).map((c) => c.name);
+        const parts: string[] = [];
+        if (removed.length > 0) parts.push(`${kind} removed: ${removed.join(", ")}`);
+        if (added.length > 0) parts.push(`${kind} added: ${added.join(", ")}`);
+        return parts;
+    };
+    const parts = [...diff("inputs", currentInputs, runInputs), ...diff("outputs", currentOutputs, runOutputs)];
+    return parts.length > 0 ? `The model's MC cells changed (${parts.join("; ")})` : null;
+}
+
+// ── In-memory host ──────────────────────────────────────────────
+
+/** A distribution input of a function model, identified by name */
+export interface FunctionInputSpec {
+    name: string;
+    type: DistributionType;
+    params: DistributionParams;
+    modifiers?: DistributionModifiers;
+}
+
+/**
+ * Host for a model written as a JavaScript function from input
+ * values to output values, both keyed by name.  Inputs are checked
+ * the way the MC.* functions check their arguments, so invalid ones
+ * stop the run with the same message; so do repeated input names.
+ */
+export function createFunctionHost(
+    inputs: FunctionInputSpec[],
+    outputNames: string[],
+    model: (values: Record<string, number>) => Record<string, number>,
+    correlations: CorrelationMatrix[] = []
+): ModelHost {
+    const registered: DistributionInput[] = inputs.map((spec, i) => {
+        const def = getDistribution(spec.type);
+        let params = spec.params;
+        let error = def ? def.validate(params) : `unknown distribution "${spec.type}"`;
+        // The name is the input's id, so it must be unique
+        if (inputs.findIndex((other) => other.name === spec.name) < i) error = "another input has the same name";
+        if (def && !error) {
+            if (def.prepare) params = def.prepare(params);
+            error = validateModifiers(def, params, spec.modifiers ?? {});
+        }
+        return {
+            id: spec.name,
+            cellAddress: "",
+            type: spec.type,
+            params,
+            modifiers: hasModifiers(spec.modifiers) ? spec.modifiers : undefined,
+            name: spec.name,
+            error: error ?? undefined,
+        };
+    });
+    const outputs: SimulationOutput[] = outputNames.map((name) => ({ id: name, cellAddress: "", name }));
+
+    return {
+        getInputs: () => registered,
+        getOutputs: () => outputs,
+        getCorrelations: () => correlations,
+        async open(_config, runInputs, runOutputs) {
+            const problem = describeMismatch(registered, outputs, runInputs, runOutputs);
+            if (problem) throw new Error(problem);
+            return {
+                evaluation: "javascript",
+                batchSize: JS_BATCH_SIZE,
+                async evaluate(samples) {
+                    const rows = samples.map((row) => {
+                        const values: Record<string, number> = {};
+                        runInputs.forEach((inp, i) => (values[inp.name] = row[i]));
+                        const result = model(values);
+                        return runOutputs.map((out) => toOutputValue(result[out.name]));
+                    });
+                    await yieldToEventLoop();
+                    return rows;
+                },
+                async restore() {
+                    // Nothing to restore
+                },
+            };
+        },
+    };
+}
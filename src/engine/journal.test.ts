@@ -0,0 +1,70 @@
+/* ---------------------------------------------------------------
+ * journal.test.ts — Reading back the restore journal
+ *
+ * A journal must come back from its custom XML part exactly as it
+ * was written, whatever the formulas contain, and anything else
+ * found in the part — corrupt text or a journal of another shape —
+ * must read as no journal rather than a wrong one.
+ * --------------------------------------------------------------- */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { RestoreJournal, journalFromXml, journalToXml, parseJournal, serializeJournal } from "./journal";
+
+const journal: RestoreJournal = {
+    started: "2026-03-14T09:26:53.589Z",
+    cells: [
+        { address: "Sheet1!B2", formula: '=MC.NORMAL(10, 2, "Growth")' },
+        { address: "'Q1 & Q2'!C3", formula: '=IF(A1<0, "<none>", A1&"%")' },
+        { address: "Sheet1!B3", formula: 42 },
+        { address: "Sheet1!B4", formula: true },
+        { address: "Sheet1!B5", formula: "" },
+        { address: "Données!A1", formula: "=MC.PERT(1, 2, 3) ' ]]> \\ \n" },
+    ],
+};
+
+test("a journal reads back as it was written", () => {
+    assert.deepEqual(parseJournal(serializeJournal(journal)), journal);
+    assert.deepEqual(journalFromXml(journalToXml(journal)), journal);
+    assert.deepEqual(parseJournal(serializeJournal({ started: journal.started, cells: [] })), {
+        started: journal.started,
+        cells: [],
+    });
+});
+
+test("the XML part escapes the formulas", () => {
+    const xml = journalToXml(journal);
+    assert.match(xml, /^<journal xmlns="http:\/\/schemas\.monte-carlo-sim\/restore-journal\/1">/);
+    assert.doesNotMatch(xml.slice(xml.indexOf(">") + 1, xml.lastIndexOf("<")), /[<>]/);
+    // Excel may hand the part back with other entities escaped too
+    assert.deepEqual(journalFromXml(xml.replace(/"/g, "&quot;").replace(/'/g, "&apos;")), journal);
+});
+
+test("corrupt journals read as none", () => {
+    const text = serializeJournal(journal);
+    assert.equal(parseJournal(text.slice(0, text.length / 2)), null);
+    assert.equal(parseJournal(""), null);
+    assert.equal(parseJournal("null"), null);
+    assert.equal(parseJournal("[]"), null);
+    assert.equal(journalFromXml("<other>text</other>"), null);
+    assert.equal(journalFromXml(`<journal>${text}`), null);
+    assert.equal(journalFromXml("<journal>not json</journal>"), null);
+});
+
+test("journals of another shape read as none", () => {
+    const shape = (value: unknown) => parseJournal(JSON.stringify(value));
+    // Formulas keyed by address, as an earlier layout might have stored them
+    assert.equal(shape({ started: journal.started, formulas: { "Sheet1!B2": "=MC.NORMAL(0,1)" } }), null);
+    assert.equal(shape({ cells: journal.cells }), null);
+    assert.equal(shape({ started: 1710408413589, cells: journal.cells }), null);
+    assert.equal(shape({ started: journal.started, cells: {} }), null);
+    // One entry that can't be restored rejects the whole journal
+    const withBad = (entry: unknown) => shape({ started: journal.started, cells: [...journal.cells, entry] });
+    assert.equal(withBad({ address: "Sheet1!B9" }), null);
+    assert.equal(withBad({ address: "", formula: "=1" }), null);
+    assert.equal(withBad({ address: "Sheet1!B9", formula: null }), null);
+    assert.equal(withBad({ address: "Sheet1!B9", formula: ["=1"] }), null);
+    assert.equal(withBad("Sheet1!B9"), null);
+    // Extra fields are dropped
+    assert.deepEqual(shape({ ...journal, version: 2 }), journal);
+});
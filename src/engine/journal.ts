@@ -0,0 +1,175 @@
+/* ---------------------------------------------------------------
+ * journal.ts — Crash-safe record of the input formulas a run replaces
+ *
+ * Before Excel recalculation writes its first sampled value, the
+ * input cells' original formulas are saved in a custom XML part of
+ * the workbook, which is saved with the file but never shown.  The
+ * part is removed once the formulas are back.  If the task pane
+ * reloads or Excel closes mid-run, the part survives, and on the
+ * next start the add-in offers to put the formulas back.
+ * --------------------------------------------------------------- */
+
+/* global Excel */
+
+import { splitSheet } from "./formula";
+
+const NAMESPACE = "http://schemas.monte-carlo-sim/restore-journal/1";
+
+/** One input cell and what it held before the run */
+export interface JournalEntry {
+    /** Sheet-qualified address, e.g. "Sheet1!B2" */
+    address: string;
+    formula: string | number | boolean;
+}
+
+export interface RestoreJournal {
+    /** When the run started writing (ISO 8601) */
+    started: string;
+    cells: JournalEntry[];
+}
+
+// ── JSON ────────────────────────────────────────────────────────
+
+export function serializeJournal(journal: RestoreJournal): string {
+    return JSON.stringify(journal);
+}
+
+function isEntry(entry: unknown): entry is JournalEntry {
+    if (typeof entry !== "object" || entry === null) return false;
+    const { address, formula } = entry as Record<string, unknown>;
+    return (
+        typeof address === "string" &&
+        address !== "" &&
+        (typeof formula === "string" || typeof formula === "number" || typeof formula === "boolean")
+    );
+}
+
+/**
+ * The journal in `text`, or null if it is not one this version
+ * wrote — corrupt JSON, or a different shape.  Restoring part of a
+ * journal could leave cells the user can't tell apart, so one bad
+ * entry rejects it all.
+ */
+export function parseJournal(text: string): RestoreJournal | null {
+    let journal: unknown;
+    try {
+        journal = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (typeof journal !== "object" || journal === null) return null;
+    const { started, cells } = journal as Record<string, unknown>;
+    if (typeof started !== "string" || !Array.isArray(cells) || !cells.every(isEntry)) return null;
+    return { started, cells };
+}
+
+// ── XML ─────────────────────────────────────────────────────────
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&");
+}
+
+/** The custom XML part holding a journal */
+export function journalToXml(journal: RestoreJournal): string {
+    return `<journal xmlns="${NAMESPACE}">${escapeXml(serializeJournal(journal))}</journal>`;
+}
+
+/** The journal in a custom XML part, or null if the part doesn't hold one */
+export function journalFromXml(xml: string): RestoreJournal | null {
+    const m = /<journal[^>]*>([\s\S]*)<\/journal>/.exec(xml);
+    return m ? parseJournal(unescapeXml(m[1])) : null;
+}
+
+// ── Within a run's request context ──────────────────────────────
+
+/** The unfinished journal in the workbook, or null if there is none */
+export async function readJournal(ctx: Excel.RequestContext): Promise<RestoreJournal | null> {
+    const parts = ctx.workbook.customXmlParts.getByNamespace(NAMESPACE);
+    parts.load("items");
+    await ctx.sync();
+    if (parts.items.length === 0) return null;
+
+    // A part that can't be read must not hide one that can
+    const xml = parts.items.map((part) => part.getXml());
+    await ctx.sync();
+    for (const { value } of xml) {
+        const journal = journalFromXml(value);
+        if (journal) return journal;
+    }
+    console.warn(`[MC] Ignoring ${xml.length} unreadable restore journal part(s)`);
+    return null;
+}
+
+/** Save the cells' current formulas; resolves once the journal is in the workbook */
+export async function writeJournal(ctx: Excel.RequestContext, cells: JournalEntry[]): Promise<void> {
+    ctx.workbook.customXmlParts.add(journalToXml({ started: new Date().toISOString(), cells }));
+    await ctx.sync();
+    console.log(`[MC] Journaled ${cells.length} input formulas`);
+}
+
+/** Remove the journal once its formulas are back */
+export async function clearJournal(ctx: Excel.RequestContext): Promise<void> {
+    const parts = ctx.workbook.customXmlParts.getByNamespace(NAMESPACE);
+    parts.load("items");
+    await ctx.sync();
+    parts.items.forEach((part) => part.delete());
+    await ctx.sync();
+}
+
+// ── Start-up recovery ───────────────────────────────────────────
+
+/** Look for a journal left by an interrupted run; null if none (or Excel is unavailable) */
+export async function findJournal(): Promise<RestoreJournal | null> {
+    try {
+        return await Excel.run((ctx) => readJournal(ctx));
+    } catch (error) {
+        console.warn("[MC] Could not check for an interrupted run:", error);
+        return null;
+    }
+}
+
+/**
+ * Put the journaled formulas back and remove the journal.  Cells on
+ * sheets that no longer exist are skipped; returns how many cells
+ * were restored.
+ */
+export async function restoreJournal(journal: RestoreJournal): Promise<number> {
+    return Excel.run(async (ctx) => {
+        const sheets = journal.cells.map(({ address }) => {
+            const [sheet] = splitSheet(address);
+            const ws = ctx.workbook.worksheets.getItemOrNullObject(sheet ?? "");
+            ws.load("isNullObject");
+            return ws;
+        });
+        await ctx.sync();
+
+        let restored = 0;
+        journal.cells.forEach(({ address, formula }, i) => {
+            if (sheets[i].isNullObject) {
+                console.warn(`[MC] Cannot restore ${address}: its sheet no longer exists`);
+                return;
+            }
+            sheets[i].getRange(splitSheet(address)[1]).formulas = [[formula]];
+            restored++;
+        });
+        await ctx.sync();
+
+        await clearJournal(ctx);
+        console.log(`[MC] Restored ${restored} input formulas from the journal`);
+        return restored;
+    });
+}
+
+/** Drop the journal without touching the cells */
+export async function discardJournal(): Promise<void> {
+    await Excel.run((ctx) => clearJournal(ctx));
+}
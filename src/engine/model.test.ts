@@ -0,0 +1,162 @@
+/* ---------------------------------------------------------------
+ * model.test.ts — Evaluating a workbook snapshot in JavaScript
+ *
+ * Builds small snapshots, compiles them the way a run does and
+ * checks each result against what Excel shows, including error
+ * values, and that every unsupported model is turned down with its
+ * reason so the run can fall back to Excel.
+ * --------------------------------------------------------------- */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { CellValue, CompiledModel, NameSnapshot, SheetSnapshot, compileModel } from "./model";
+import { formatAddress } from "./formula";
+
+/** A sheet whose used range starts at A1; strings starting with "=" are formulas */
+function sheet(name: string, rows: unknown[][]): SheetSnapshot {
+    const width = Math.max(...rows.map((r) => r.length));
+    return {
+        name,
+        address: `${formatAddress({ sheet: name, row: 0, col: 0 })}:${formatAddress({
+            row: rows.length - 1,
+            col: width - 1,
+        })}`,
+        formulas: rows,
+        values: rows.map((r) => r.map((v) => (typeof v === "string" && v.startsWith("=") ? 0 : v))),
+    };
+}
+
+function compile(
+    sheets: SheetSnapshot[],
+    inputs: string[],
+    outputs: string[],
+    names: NameSnapshot[] = []
+): CompiledModel {
+    const model = compileModel(sheets, names, inputs, outputs, sheets[0].name);
+    if (typeof model === "string") assert.fail(model);
+    return model;
+}
+
+/** The value of one formula, with the input cell A1 set to `a1` */
+function evaluate(formula: string, a1: number = 0): CellValue {
+    return compile([sheet("S", [[null, formula]])], ["A1"], ["B1"]).evaluate([a1])[0];
+}
+
+/** Why a model can't be compiled */
+function reason(sheets: SheetSnapshot[], outputs: string[], names: NameSnapshot[] = []): string {
+    const model = compileModel(sheets, names, ["A1"], outputs, sheets[0].name);
+    assert.equal(typeof model, "string");
+    return model as string;
+}
+
+test("arithmetic follows Excel's precedence", () => {
+    assert.equal(evaluate("=1+2*3"), 7);
+    assert.equal(evaluate("=2^3^2"), 64);
+    assert.equal(evaluate("=-2^2"), 4);
+    assert.equal(evaluate("=-A1^2", 3), 9);
+    assert.equal(evaluate("=0-A1^2", 3), -9);
+    assert.equal(evaluate("=2^-1"), 0.5);
+    assert.equal(evaluate("=50%*4"), 2);
+    assert.equal(evaluate('=1&2+3'), "15");
+    assert.equal(evaluate("=1+2=3"), true);
+    assert.equal(evaluate('="a"<"B"'), true);
+    assert.equal(evaluate("=A1*10", 0.25), 2.5);
+});
+
+test("functions", () => {
+    assert.equal(evaluate("=SUM(1,2,3)"), 6);
+    assert.equal(evaluate("=AVERAGE(2,4)"), 3);
+    assert.equal(evaluate("=MIN(3,1,2)"), 1);
+    assert.equal(evaluate("=MOD(-7,3)"), 2);
+    assert.ok(Math.abs((evaluate("=NPV(0.1,110,121)") as number) - 200) < 1e-9);
+    assert.equal(evaluate("=AND(TRUE,1,NOT(FALSE))"), true);
+    assert.equal(evaluate("=LOG(8,2)"), 3);
+});
+
+test("ROUND rounds the decimal value, half away from zero", () => {
+    assert.equal(evaluate("=ROUND(1.005,2)"), 1.01);
+    assert.equal(evaluate("=ROUND(-1.005,2)"), -1.01);
+    assert.equal(evaluate("=ROUND(2.5,0)"), 3);
+    assert.equal(evaluate("=ROUND(1234.5,-2)"), 1200);
+    assert.equal(evaluate("=ROUNDDOWN(0.29,2)"), 0.29);
+    assert.equal(evaluate("=ROUNDUP(1.001,2)"), 1.01);
+    assert.equal(evaluate("=ROUNDUP(-1.001,2)"), -1.01);
+});
+
+test("text becomes a number only when it is decimal numeric text", () => {
+    assert.equal(evaluate('=" 12 "+1'), 13);
+    assert.equal(evaluate('="1.5e3"*1'), 1500);
+    assert.equal(evaluate('="-.5"+0'), -0.5);
+    assert.equal(evaluate('="0x10"+0'), "#VALUE!");
+    assert.equal(evaluate('="Infinity"+0'), "#VALUE!");
+    assert.equal(evaluate('="1e"+0'), "#VALUE!");
+    assert.equal(evaluate('="abc"*1'), "#VALUE!");
+    assert.equal(evaluate('=""+1'), "#VALUE!");
+});
+
+test("errors propagate through dependent cells", () => {
+    const model = compile(
+        [sheet("S", [[null, "=1/A1", "=B1+1", "=SUM(B1:C1)", "=COUNT(B1:C1,5)", "#N/A", "=F1*2"]])],
+        ["A1"],
+        ["B1", "C1", "D1", "E1", "G1"]
+    );
+    assert.deepEqual(model.evaluate([0]), ["#DIV/0!", "#DIV/0!", "#DIV/0!", 1, "#N/A"]);
+    assert.deepEqual(model.evaluate([0.5]), [2, 3, 5, 3, "#N/A"]);
+    assert.equal(evaluate("=SQRT(-1)"), "#NUM!");
+    assert.equal(evaluate("=10^400"), "#NUM!");
+    assert.equal(evaluate("=0^-1"), "#DIV/0!");
+});
+
+test("IF and IFERROR only evaluate the branch they need", () => {
+    assert.equal(evaluate("=IF(A1>0,A1,SQRT(-1))", 4), 4);
+    assert.equal(evaluate("=IF(A1>0,A1,SQRT(-1))", -4), "#NUM!");
+    assert.equal(evaluate("=IF(A1>0,1/0,2)", -1), 2);
+    assert.equal(evaluate("=IF(A1>0,5)", -1), false);
+    assert.equal(evaluate("=IFERROR(1/A1,99)", 0), 99);
+    assert.equal(evaluate("=IFERROR(1/A1,1/0)", 2), 0.5);
+    assert.equal(evaluate('=IF("maybe",1,2)'), "#VALUE!");
+});
+
+test("defined names, sheet-scoped names first", () => {
+    const sheets = [sheet("S", [[null, "=A1*Rate", "=Total"]]), sheet("T", [[null, 0.1]])];
+    const names: NameSnapshot[] = [
+        { name: "Rate", formula: "=T!$B$1" },
+        { name: "Rate", sheet: "S", formula: "=0.5" },
+        { name: "Total", formula: "=S!$B$1+1" },
+    ];
+    assert.deepEqual(compile(sheets, ["A1"], ["B1", "C1"], names).evaluate([10]), [5, 6]);
+    assert.deepEqual(compile(sheets, ["A1"], ["B1"], names.slice(0, 1)).evaluate([10]), [1]);
+});
+
+test("references to other sheets, including empty and quoted ones", () => {
+    const sheets = [
+        sheet("Inputs", [[null]]),
+        sheet("My Calc", [["=Inputs!A1*2", "='My Calc'!A1+Blank!C3"]]),
+        { name: "Blank", address: "", formulas: [], values: [] },
+    ];
+    const model = compileModel(sheets, [], ["Inputs!A1"], ["'My Calc'!B1"], "Inputs");
+    assert.notEqual(typeof model, "string");
+    assert.deepEqual((model as CompiledModel).evaluate([21]), [42]);
+    assert.equal((model as CompiledModel).formulaCount, 2);
+});
+
+test("only the cells the outputs depend on are compiled", () => {
+    const model = compile([sheet("S", [[null, "=A1+1", "=UNKNOWNFN(1)"]])], ["A1"], ["B1"]);
+    assert.equal(model.formulaCount, 1);
+});
+
+test("each unsupported model is turned down with its reason", () => {
+    const one = (formula: string, names: NameSnapshot[] = []) =>
+        reason([sheet("S", [[null, formula]])], ["B1"], names);
+    assert.match(one("=VLOOKUP(A1,C1:D2,2)"), /S!B1: function VLOOKUP is not supported/);
+    assert.match(one("=ROUND(A1)"), /wrong number of arguments to ROUND/);
+    assert.match(one("=A1+Missing"), /unknown name "Missing"/);
+    assert.match(one("=A1+Loop", [{ name: "Loop", formula: "=Loop+1" }]), /name "Loop" refers to itself/);
+    assert.match(one("=A1+Col", [{ name: "Col", formula: "=S!A:A" }]), /name "Col": Unsupported reference/);
+    assert.match(one("=A1+{1,2}"), /S!B1: Array constants are not supported/);
+    assert.match(one("=A1:A2"), /array formulas are not supported/);
+    assert.match(one("=SUM(A1:Z10000)"), /range too large/);
+    assert.match(one("=Nowhere!A1"), /Unknown sheet "Nowhere"/);
+    assert.match(reason([sheet("S", [[null, "=C1", "=B1"]])], ["B1"]), /Circular reference at S!B1/);
+    assert.match(reason([sheet("S", [[null]])], ["not an address"]), /Cannot read address/);
+});
@@ -0,0 +1,620 @@
+/* ---------------------------------------------------------------
+ * model.ts — Workbook model evaluated in JavaScript
+ *
+ * Compiles the formulas between the MC.* input cells and the
+ * MC.OUTPUT cells into a dependency graph of closures, so each
+ * iteration is a plain function call instead of an Excel
+ * write → recalc → read round trip.
+ *
+ * Only cells the outputs actually depend on are compiled.  If any
+ * of them uses something the evaluator does not implement (an
+ * unknown function, a name that isn't a plain cell or range, a
+ * circular reference, …),
+ * compileModel returns the reason instead and the simulator falls
+ * back to recalculating in Excel.
+ *
+ * Pure math, no Excel dependency: the caller supplies a snapshot
+ * of each sheet's used range and of the defined names.
+ * --------------------------------------------------------------- */
+
+import {
+    FormulaNode,
+    RangeRef,
+    formatAddress,
+    parseAddress,
+    parseFormula,
+    parseRangeAddress,
+} from "./formula";
+
+/** Formulas and values of one worksheet's used range */
+export interface SheetSnapshot {
+    name: string;
+    /** Address of the used range, e.g. "Sheet1!A1:F20" */
+    address: string;
+    formulas: unknown[][];
+    values: unknown[][];
+}
+
+/** A defined name; `sheet` is set for names scoped to one worksheet */
+export interface NameSnapshot {
+    name: string;
+    sheet?: string;
+    /** What the name refers to, e.g. "=Calc!$B$11" */
+    formula: string;
+}
+
+/** What a cell evaluates to; errors are reported by their code, e.g. "#DIV/0!" */
+export type CellValue = number | string | boolean | null;
+
+export interface CompiledModel {
+    /** Number of formula cells evaluated per iteration */
+    formulaCount: number;
+    /** Evaluate every output for one set of input samples (in input order) */
+    evaluate(samples: ArrayLike<number>): CellValue[];
+}
+
+/** Largest range a single reference may span */
+const MAX_RANGE_CELLS = 100000;
+
+// ── Values & errors ─────────────────────────────────────────────
+
+/** An Excel error value; thrown while evaluating, stored in cells */
+interface ErrorValue {
+    error: string;
+}
+
+type Value = CellValue | ErrorValue;
+type Thunk = () => Value | Value[];
+
+const ERROR_CODES = ["#NULL!", "#DIV/0!", "#VALUE!", "#REF!", "#NAME?", "#NUM!", "#N/A", "#SPILL!", "#CALC!"];
+
+function isError(v: unknown): v is ErrorValue {
+    return typeof v === "object" && v !== null && "error" in v;
+}
+
+function raise(code: string): never {
+    throw { error: code } as ErrorValue;
+}
+
+/** A value read from the workbook, with error strings turned back into errors */
+function fromWorkbook(v: unknown): Value {
+    if (typeof v === "number" || typeof v === "boolean") return v;
+    if (typeof v === "string") {
+        if (v === "") return null;
+        return ERROR_CODES.includes(v) ? { error: v } : v;
+    }
+    return null;
+}
+
+/** A single value; a range is only allowed if it is one cell */
+function scalar(v: Value | Value[]): Value {
+    if (!Array.isArray(v)) {
+        if (isError(v)) throw v;
+        return v;
+    }
+    if (v.length !== 1) raise("#VALUE!");
+    return scalar(v[0]);
+}
+
+/** Text Excel reads as a number: plain decimal, optionally signed and with an exponent */
+const NUMERIC_TEXT = /^[+-]?(\d+\.?\d*|\.\d+)(E[+-]?\d+)?$/i;
+
+function toNumber(v: Value | Value[]): number {
+    const s = scalar(v);
+    if (typeof s === "number") return s;
+    if (typeof s === "boolean") return s ? 1 : 0;
+    if (s === null) return 0;
+    // Not Number(): it would also take "0x10", "Infinity" and the like
+    const text = (s as string).trim();
+    if (!NUMERIC_TEXT.test(text)) raise("#VALUE!");
+    return finite(parseFloat(text));
+}
+
+function toText(v: Value | Value[]): string {
+    const s = scalar(v);
+    if (s === null) return "";
+    if (typeof s === "boolean") return s ? "TRUE" : "FALSE";
+    return String(s);
+}
+
+function toBoolean(v: Value | Value[]): boolean {
+    const s = scalar(v);
+    if (typeof s === "boolean") return s;
+    if (typeof s === "number") return s !== 0;
+    if (s === null) return false;
+    const upper = (s as string).toUpperCase();
+    if (upper === "TRUE") return true;
+    if (upper === "FALSE") return false;
+    return raise("#VALUE!");
+}
+
+/** A finite number, or #NUM! — Excel has no NaN or infinity */
+function finite(n: number): number {
+    if (!isFinite(n)) raise("#NUM!");
+    return n;
+}
+
+/** Excel ordering: numbers < text < booleans; text compares case-insensitively */
+function compare(a: Value, b: Value): number {
+    const rank = (v: Value) => (typeof v === "boolean" ? 2 : typeof v === "string" ? 1 : 0);
+    if (a === null) a = typeof b === "string" ? "" : typeof b === "boolean" ? false : 0;
+    if (b === null) b = typeof a === "string" ? "" : typeof a === "boolean" ? false : 0;
+    const ra = rank(a), rb = rank(b);
+    if (ra !== rb) return ra - rb;
+    if (typeof a === "string") {
+        const x = a.toLowerCase(), y = (b as string).toLowerCase();
+        return x < y ? -1 : x > y ? 1 : 0;
+    }
+    return Number(a) - Number(b);
+}
+
+// ── Function library ────────────────────────────────────────────
+
+/**
+ * Numbers from the arguments, the way SUM sees them: numbers,
+ * booleans and numeric text given directly are converted, while
+ * text, booleans and blanks inside ranges are skipped.
+ */
+function numbersOf(args: Thunk[]): number[] {
+    const out: number[] = [];
+    for (const arg of args) {
+        const v = arg();
+        if (Array.isArray(v)) {
+            for (const cell of v) {
+                if (isError(cell)) throw cell;
+                if (typeof cell === "number") out.push(cell);
+            }
+        } else {
+            out.push(toNumber(v));
+        }
+    }
+    return out;
+}
+
+/** Booleans from the arguments, the way AND and OR see them */
+function booleansOf(args: Thunk[]): boolean[] {
+    const out: boolean[] = [];
+    for (const arg of args) {
+        const v = arg();
+        if (Array.isArray(v)) {
+            for (const cell of v) {
+                if (isError(cell)) throw cell;
+                if (typeof cell === "number" || typeof cell === "boolean") out.push(toBoolean(cell));
+            }
+        } else {
+            out.push(toBoolean(v));
+        }
+    }
+    if (out.length === 0) raise("#VALUE!");
+    return out;
+}
+
+/** MIN / MAX of a list, 0 when it is empty (as in Excel) */
+function extreme(xs: number[], pick: (a: number, b: number) => number): number {
+    return xs.length === 0 ? 0 : xs.reduce((m, x) => pick(m, x));
+}
+
+/**
+ * Round as Excel does, on the decimal digits shown: the scaled value
+ * is cut to 15 significant digits first, so 1.005 × 100 rounds from
+ * 100.5 rather than from 100.49999999999999.
+ */
+function roundTo(x: number, digits: number, mode: (v: number) => number): number {
+    const f = Math.pow(10, Math.trunc(digits));
+    const scaled = Number((Math.abs(x) * f).toPrecision(15));
+    return (Math.sign(x) * mode(scaled)) / f;
+}
+
+interface FunctionDef {
+    minArgs: number;
+    maxArgs: number;
+    fn: (args: Thunk[]) => Value;
+}
+
+const ANY = Infinity;
+
+function unaryMath(f: (x: number) => number): FunctionDef {
+    return { minArgs: 1, maxArgs: 1, fn: (a) => finite(f(toNumber(a[0]()))) };
+}
+
+const FUNCTIONS: Record<string, FunctionDef> = {
+    SUM: { minArgs: 1, maxArgs: ANY, fn: (a) => numbersOf(a).reduce((s, x) => s + x, 0) },
+    PRODUCT: { minArgs: 1, maxArgs: ANY, fn: (a) => finite(numbersOf(a).reduce((s, x) => s * x, 1)) },
+    AVERAGE: {
+        minArgs: 1,
+        maxArgs: ANY,
+        fn: (a) => {
+            const xs = numbersOf(a);
+            if (xs.length === 0) raise("#DIV/0!");
+            return xs.reduce((s, x) => s + x, 0) / xs.length;
+        },
+    },
+    MIN: { minArgs: 1, maxArgs: ANY, fn: (a) => extreme(numbersOf(a), Math.min) },
+    MAX: { minArgs: 1, maxArgs: ANY, fn: (a) => extreme(numbersOf(a), Math.max) },
+    COUNT: {
+        minArgs: 1,
+        maxArgs: ANY,
+        fn: (a) => {
+            let n = 0;
+            for (const arg of a) {
+                let v: Value | Value[];
+                try {
+                    v = arg();
+                } catch (e) {
+                    if (isError(e)) continue;
+                    throw e;
+                }
+                for (const cell of Array.isArray(v) ? v : [v]) if (typeof cell === "number") n++;
+            }
+            return n;
+        },
+    },
+    SUMPRODUCT: {
+        minArgs: 1,
+        maxArgs: ANY,
+        fn: (a) => {
+            const arrays = a.map((arg) => {
+                const v = arg();
+                return Array.isArray(v) ? v : [scalar(v)];
+            });
+            const n = arrays[0].length;
+            if (arrays.some((arr) => arr.length !== n)) raise("#VALUE!");
+            let sum = 0;
+            for (let i = 0; i < n; i++) {
+                let prod = 1;
+                for (const arr of arrays) {
+                    const cell = arr[i];
+                    if (isError(cell)) throw cell;
+                    prod *= typeof cell === "number" ? cell : 0;
+                }
+                sum += prod;
+            }
+            return sum;
+        },
+    },
+    ABS: unaryMath(Math.abs),
+    SQRT: unaryMath((x) => (x < 0 ? raise("#NUM!") : Math.sqrt(x))),
+    EXP: unaryMath(Math.exp),
+    LN: unaryMath((x) => (x <= 0 ? raise("#NUM!") : Math.log(x))),
+    LOG10: unaryMath((x) => (x <= 0 ? raise("#NUM!") : Math.log10(x))),
+    LOG: {
+        minArgs: 1,
+        maxArgs: 2,
+        fn: (a) => {
+            const x = toNumber(a[0]());
+            const base = a.length > 1 ? toNumber(a[1]()) : 10;
+            if (x <= 0 || base <= 0) raise("#NUM!");
+            if (base === 1) raise("#DIV/0!");
+            return Math.log(x) / Math.log(base);
+        },
+    },
+    INT: unaryMath(Math.floor),
+    SIGN: unaryMath(Math.sign),
+    PI: { minArgs: 0, maxArgs: 0, fn: () => Math.PI },
+    POWER: { minArgs: 2, maxArgs: 2, fn: (a) => power(toNumber(a[0]()), toNumber(a[1]())) },
+    MOD: {
+        minArgs: 2,
+        maxArgs: 2,
+        fn: (a) => {
+            const n = toNumber(a[0]()), d = toNumber(a[1]());
+            if (d === 0) raise("#DIV/0!");
+            return n - d * Math.floor(n / d);
+        },
+    },
+    ROUND: {
+        minArgs: 2,
+        maxArgs: 2,
+        fn: (a) => roundTo(toNumber(a[0]()), toNumber(a[1]()), Math.round),
+    },
+    ROUNDUP: {
+        minArgs: 2,
+        maxArgs: 2,
+        fn: (a) => roundTo(toNumber(a[0]()), toNumber(a[1]()), Math.ceil),
+    },
+    ROUNDDOWN: {
+        minArgs: 2,
+        maxArgs: 2,
+        fn: (a) => roundTo(toNumber(a[0]()), toNumber(a[1]()), Math.floor),
+    },
+    IF: {
+        minArgs: 1,
+        maxArgs: 3,
+        fn: (a) => {
+            if (toBoolean(a[0]())) return a.length > 1 ? scalar(a[1]()) : true;
+            return a.length > 2 ? scalar(a[2]()) : false;
+        },
+    },
+    IFERROR: {
+        minArgs: 2,
+        maxArgs: 2,
+        fn: (a) => {
+            try {
+                return scalar(a[0]());
+            } catch (e) {
+                if (isError(e)) return scalar(a[1]());
+                throw e;
+            }
+        },
+    },
+    AND: { minArgs: 1, maxArgs: ANY, fn: (a) => booleansOf(a).every((b) => b) },
+    OR: { minArgs: 1, maxArgs: ANY, fn: (a) => booleansOf(a).some((b) => b) },
+    NOT: { minArgs: 1, maxArgs: 1, fn: (a) => !toBoolean(a[0]()) },
+    NPV: {
+        minArgs: 2,
+        maxArgs: ANY,
+        fn: (a) => {
+            const rate = toNumber(a[0]());
+            if (rate === -1) raise("#DIV/0!");
+            return numbersOf(a.slice(1)).reduce((s, x, i) => s + x / Math.pow(1 + rate, i + 1), 0);
+        },
+    },
+    // The output marker passes its value straight through
+    "MC.OUTPUT": { minArgs: 1, maxArgs: 2, fn: (a) => scalar(a[0]()) },
+};
+
+function power(base: number, exp: number): number {
+    if (base === 0 && exp < 0) raise("#DIV/0!");
+    return finite(Math.pow(base, exp));
+}
+
+function binary(op: string, left: Thunk, right: Thunk): Thunk {
+    switch (op) {
+        case "+": return () => finite(toNumber(left()) + toNumber(right()));
+        case "-": return () => finite(toNumber(left()) - toNumber(right()));
+        case "*": return () => finite(toNumber(left()) * toNumber(right()));
+        case "/": return () => {
+            const x = toNumber(left()), y = toNumber(right());
+            if (y === 0) raise("#DIV/0!");
+            return finite(x / y);
+        };
+        case "^": return () => power(toNumber(left()), toNumber(right()));
+        case "&": return () => toText(left()) + toText(right());
+        case "=": return () => compare(scalar(left()), scalar(right())) === 0;
+        case "<>": return () => compare(scalar(left()), scalar(right())) !== 0;
+        case "<": return () => compare(scalar(left()), scalar(right())) < 0;
+        case ">": return () => compare(scalar(left()), scalar(right())) > 0;
+        case "<=": return () => compare(scalar(left()), scalar(right())) <= 0;
+        default: return () => compare(scalar(left()), scalar(right())) >= 0;
+    }
+}
+
+// ── Compilation ─────────────────────────────────────────────────
+
+/**
+ * Formula a defined name stands for, as seen from `sheet`: a name
+ * scoped to that sheet wins over a workbook-level one.
+ */
+function lookupName(names: NameSnapshot[], name: string, sheet: string): string | undefined {
+    const key = name.toLowerCase();
+    const matches = names.filter((n) => n.name.toLowerCase() === key);
+    const local = matches.find((n) => n.sheet?.toLowerCase() === sheet.toLowerCase());
+    return (local ?? matches.find((n) => n.sheet === undefined))?.formula;
+}
+
+/**
+ * Address of the cell an MC.OUTPUT formula in `outputAddress`
+ * reports — its first argument, when that is a cell reference or a
+ * name for one — or null if it is anything else.
+ */
+export function outputSourceAddress(
+    formula: string,
+    outputAddress: string,
+    names: NameSnapshot[]
+): string | null {
+    const at = parseAddress(outputAddress);
+    if (!at?.sheet) return null;
+    try {
+        const tree = parseFormula(formula);
+        if (tree.kind !== "call" || tree.name !== "MC.OUTPUT" || tree.args.length === 0) return null;
+        let arg = tree.args[0];
+        const sheet = at.sheet;
+        if (arg.kind === "name") {
+            const target = lookupName(names, arg.name, sheet);
+            if (!target) return null;
+            arg = parseFormula(target);
+        }
+        if (arg.kind !== "ref") return null;
+        return formatAddress({ sheet: arg.sheet ?? sheet, row: arg.row, col: arg.col });
+    } catch {
+        return null;
+    }
+}
+
+interface SheetData {
+    name: string;
+    origin: RangeRef;
+    formulas: unknown[][];
+    values: unknown[][];
+}
+
+/**
+ * Compile the model that links `inputAddresses` to `outputAddresses`.
+ * Unqualified addresses refer to `defaultSheet`; unqualified
+ * references inside a formula refer to the formula's own sheet.
+ * Returns the
+ * compiled model, or a message saying why it can't be evaluated
+ * outside Excel.
+ */
+export function compileModel(
+    sheets: SheetSnapshot[],
+    names: NameSnapshot[],
+    inputAddresses: string[],
+    outputAddresses: string[],
+    defaultSheet: string
+): CompiledModel | string {
+    const byName = new Map<string, SheetData>();
+    for (const s of sheets) {
+        const origin = parseRangeAddress(s.address);
+        if (origin) byName.set(s.name.toLowerCase(), { ...s, origin });
+    }
+
+    /** Value slots: slot 0 is the shared blank cell */
+    const slots: Value[] = [null];
+    const slotOf = new Map<string, number>();
+    const visiting = new Set<string>();
+    const steps: { slot: number; expr: Thunk }[] = [];
+    const inputKeys = new Map<string, number>();
+    const expanding = new Set<string>();
+
+    const sheetOf = (name: string | undefined, from: string): SheetData => {
+        const sheet = byName.get((name ?? from).toLowerCase());
+        if (!sheet) {
+            // An empty sheet has no used range, but its cells are still blank
+            if (name === undefined || sheets.some((s) => s.name.toLowerCase() === name.toLowerCase())) {
+                return { name: name ?? from, origin: { row1: 0, col1: 0, row2: -1, col2: -1 }, formulas: [], values: [] };
+            }
+            throw new Error(`Unknown sheet "${name}"`);
+        }
+        return sheet;
+    };
+    const keyOf = (sheet: SheetData, row: number, col: number) =>
+        `${sheet.name.toLowerCase()}!${row},${col}`;
+    const label = (sheet: SheetData, row: number, col: number) =>
+        formatAddress({ sheet: sheet.name, row, col });
+
+    /** Slot holding a cell's value, compiling the cell first if needed */
+    function visit(sheet: SheetData, row: number, col: number): number {
+        const key = keyOf(sheet, row, col);
+        const known = slotOf.get(key);
+        if (known !== undefined) return known;
+        if (visiting.has(key)) throw new Error(`Circular reference at ${label(sheet, row, col)}`);
+
+        const slot = slots.length;
+        slots.push(null);
+        if (inputKeys.has(key)) {
+            slotOf.set(key, slot);
+            return slot;
+        }
+
+        const r = row - sheet.origin.row1, c = col - sheet.origin.col1;
+        const inside = r >= 0 && c >= 0 && r < sheet.formulas.length && c < sheet.formulas[r].length;
+        const formula = inside ? sheet.formulas[r][c] : null;
+        if (typeof formula === "string" && formula.startsWith("=")) {
+            visiting.add(key);
+            let tree: FormulaNode;
+            try {
+                tree = parseFormula(formula);
+            } catch (e) {
+                throw new Error(`${label(sheet, row, col)}: ${(e as Error).message}`);
+            }
+            if (tree.kind === "range") throw new Error(`${label(sheet, row, col)}: array formulas are not supported`);
+            const expr = compile(tree, sheet, label(sheet, row, col));
+            visiting.delete(key);
+            steps.push({ slot, expr });
+        } else {
+            slots[slot] = inside ? fromWorkbook(sheet.values[r][c]) : null;
+        }
+        slotOf.set(key, slot);
+        return slot;
+    }
+
+    function readSlot(slot: number): Thunk {
+        return () => {
+            const v = slots[slot];
+            if (isError(v)) throw v;
+            return v;
+        };
+    }
+
+    function compile(node: FormulaNode, sheet: SheetData, where: string): Thunk {
+        switch (node.kind) {
+            case "number":
+            case "string":
+            case "boolean": {
+                const value = node.value;
+                return () => value;
+            }
+            case "missing":
+                return () => null;
+            case "ref":
+                return readSlot(visit(sheetOf(node.sheet, sheet.name), node.row, node.col));
+            case "range": {
+                const target = sheetOf(node.sheet, sheet.name);
+                const cells = (node.row2 - node.row1 + 1) * (node.col2 - node.col1 + 1);
+                if (cells > MAX_RANGE_CELLS) throw new Error(`${where}: range too large to evaluate`);
+                const used = target.origin;
+                const rangeSlots: number[] = [];
+                for (let row = node.row1; row <= node.row2; row++) {
+                    for (let col = node.col1; col <= node.col2; col++) {
+                        const outside = row < used.row1 || row > used.row2 || col < used.col1 || col > used.col2;
+                        rangeSlots.push(outside ? 0 : visit(target, row, col));
+                    }
+                }
+                return () => rangeSlots.map((s) => slots[s]);
+            }
+            case "name": {
+                const target = lookupName(names, node.name, sheet.name);
+                if (!target) throw new Error(`${where}: unknown name "${node.name}"`);
+                const key = node.name.toLowerCase();
+                if (expanding.has(key)) throw new Error(`${where}: name "${node.name}" refers to itself`);
+                let tree: FormulaNode;
+                try {
+                    tree = parseFormula(target);
+                } catch (e) {
+                    throw new Error(`${where}: name "${node.name}": ${(e as Error).message}`);
+                }
+                expanding.add(key);
+                const expr = compile(tree, sheet, where);
+                expanding.delete(key);
+                return expr;
+            }
+            case "negate": {
+                const arg = compile(node.arg, sheet, where);
+                return () => -toNumber(arg());
+            }
+            case "percent": {
+                const arg = compile(node.arg, sheet, where);
+                return () => toNumber(arg()) / 100;
+            }
+            case "binary":
+                return binary(node.op, compile(node.left, sheet, where), compile(node.right, sheet, where));
+            case "call": {
+                const def = FUNCTIONS[node.name];
+                if (!def) throw new Error(`${where}: function ${node.name} is not supported`);
+                if (node.args.length < def.minArgs || node.args.length > def.maxArgs) {
+                    throw new Error(`${where}: wrong number of arguments to ${node.name}`);
+                }
+                const args = node.args.map((a) => compile(a, sheet, where));
+                return () => def.fn(args);
+            }
+        }
+    }
+
+    let inputSlots: number[];
+    let outputSlots: number[];
+    try {
+        const locate = (address: string) => {
+            const ref = parseAddress(address);
+            if (!ref) throw new Error(`Cannot read address "${address}"`);
+            return { sheet: sheetOf(ref.sheet, defaultSheet), row: ref.row, col: ref.col };
+        };
+        const inputs = inputAddresses.map(locate);
+        inputs.forEach((at, i) => inputKeys.set(keyOf(at.sheet, at.row, at.col), i));
+        inputSlots = inputs.map((at) => visit(at.sheet, at.row, at.col));
+        outputSlots = outputAddresses.map((address) => {
+            const at = locate(address);
+            return visit(at.sheet, at.row, at.col);
+        });
+    } catch (e) {
+        return (e as Error).message;
+    }
+
+    return {
+        formulaCount: steps.length,
+        evaluate(samples: ArrayLike<number>): CellValue[] {
+            for (let i = 0; i < inputSlots.length; i++) slots[inputSlots[i]] = samples[i];
+            for (const step of steps) {
+                try {
+                    slots[step.slot] = scalar(step.expr());
+                } catch (e) {
+                    if (!isError(e)) throw e;
+                    slots[step.slot] = e;
+                }
+            }
+            return outputSlots.map((s) => {
+                const v = slots[s];
+                return isError(v) ? v.error : v;
+            });
+        },
+    };
+}
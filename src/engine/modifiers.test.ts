@@ -0,0 +1,110 @@
+/* ---------------------------------------------------------------
+ * modifiers.test.ts — Truncation and shift
+ *
+ * Truncated draws must stay inside their bounds even far out in a
+ * tail, the shift must move the whole distribution with the bounds
+ * applying to the shifted value, and bounds that leave no mass must
+ * be refused.
+ * --------------------------------------------------------------- */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { DistributionDef, DistributionModifiers, DistributionParams } from "./types";
+import { getDistribution } from "./registry";
+import { createStream } from "./rng";
+import {
+    modifiedCdf,
+    modifiedMean,
+    modifiedQuantile,
+    modifiedSupport,
+    sampleModified,
+    validateModifiers,
+} from "./modifiers";
+
+const family = (type: string): DistributionDef => getDistribution(type)!;
+const normal = family("normal");
+const n01: DistributionParams = { mean: 0, stdev: 1 };
+
+/** Cumulative probabilities from just above 0 to just below 1 */
+const GRID = [1e-12, 1e-6, 0.01, 0.25, 0.5, 0.75, 0.99, 1 - 1e-6, 1 - 1e-12];
+
+const close = (actual: number, expected: number, tolerance: number, label: string) =>
+    assert.ok(Math.abs(actual - expected) <= tolerance, `${label}: ${actual}, expected ${expected}`);
+
+/** Assert every quantile and draw of the modified distribution lies in [lower, upper] */
+function assertInside(def: DistributionDef, p: DistributionParams, m: DistributionModifiers) {
+    const label = `${def.type} ${JSON.stringify(m)}`;
+    const inside = (x: number) =>
+        (m.lower === undefined || x >= m.lower) && (m.upper === undefined || x <= m.upper);
+    for (const u of GRID) {
+        const x = modifiedQuantile(def, p, m, u);
+        assert.ok(inside(x), `${label}: quantile ${u} is ${x}`);
+    }
+    const rng = createStream(7);
+    for (let i = 0; i < 2000; i++) {
+        const x = sampleModified(def, p, m, rng);
+        assert.ok(inside(x), `${label}: draw ${x}`);
+    }
+}
+
+test("truncated draws stay inside the bounds", () => {
+    // Far in a tail the inverse CDF is least exact
+    assertInside(normal, n01, { lower: 7 });
+    assertInside(normal, n01, { upper: -7 });
+    assertInside(normal, n01, { lower: 7, shift: 3 });
+    assertInside(normal, n01, { lower: -0.5, upper: 0.5, shift: 0.1 });
+    assertInside(family("lognormal"), { mu: 0, sigma: 1 }, { upper: 0.01 });
+    assertInside(family("gamma"), { shape: 0.3, scale: 1 }, { lower: 1e-8, upper: 1e-6 });
+    assertInside(family("beta"), { alpha: 2, beta: 3 }, { lower: 0.999 });
+    assertInside(family("poisson"), { lambda: 4 }, { lower: 2, upper: 6 });
+});
+
+test("truncation renormalises the distribution", () => {
+    // Standard normal cut at 0 is the half-normal
+    close(modifiedQuantile(normal, n01, { lower: 0 }, 0.5), 0.6744897501960817, 1e-9, "half-normal median");
+    // The mean is integrated over 512 strata, so it is close rather than exact
+    close(modifiedMean(normal, n01, { lower: 0 }), Math.sqrt(2 / Math.PI), 1e-3, "half-normal mean");
+    close(modifiedCdf(normal, n01, { lower: 0 }, 0.6744897501960817), 0.5, 1e-9, "half-normal CDF");
+    assert.equal(modifiedCdf(normal, n01, { lower: 0 }, -1), 0);
+    assert.equal(modifiedCdf(normal, n01, { upper: 1 }, 1), 1);
+    for (const u of GRID.slice(2, -2)) {
+        const m = { lower: -1, upper: 2 };
+        close(modifiedCdf(normal, n01, m, modifiedQuantile(normal, n01, m, u)), u, 1e-9, `round trip at ${u}`);
+    }
+});
+
+test("the shift moves the distribution, and the bounds apply after it", () => {
+    for (const u of GRID) {
+        close(
+            modifiedQuantile(normal, n01, { shift: 10 }, u),
+            normal.quantile!(n01, u) + 10,
+            1e-12,
+            `shifted quantile at ${u}`
+        );
+    }
+    assert.equal(modifiedMean(normal, n01, { shift: -2.5 }), -2.5);
+    // Cut at 10 after a shift of 10 is the half-normal moved up by 10
+    close(modifiedQuantile(normal, n01, { lower: 10, shift: 10 }, 0.5), 10.674489750196082, 1e-9, "shifted cut");
+    assert.deepEqual(modifiedSupport(family("bernoulli"), { p: 0.5 }, { shift: 5, upper: 5.5 }), [5]);
+    // Discrete outcomes stay whole after truncation
+    const poisson = family("poisson");
+    for (const u of GRID) {
+        const k = modifiedQuantile(poisson, { lambda: 4 }, { lower: 2, upper: 6, shift: 1 }, u);
+        assert.ok(Number.isInteger(k) && k >= 2 && k <= 6, `poisson ${u}: ${k}`);
+    }
+});
+
+test("bounds with no mass between them are refused", () => {
+    assert.equal(validateModifiers(normal, n01, { lower: -1, upper: 1, shift: 3 }), null);
+    assert.equal(validateModifiers(normal, n01, { lower: 7 }), null);
+    assert.match(validateModifiers(normal, n01, { lower: 40 })!, /no probability mass/);
+    assert.match(validateModifiers(normal, n01, { upper: 30, shift: 70 })!, /no probability mass/);
+    assert.match(validateModifiers(family("uniform"), { min: 0, max: 1 }, { lower: 1 })!, /no probability mass/);
+    // Between two outcomes of a discrete distribution
+    const discrete = family("discrete");
+    const coin = discrete.prepare!({ values: [1, 2], probs: [1, 1] });
+    assert.match(validateModifiers(discrete, coin, { lower: 1.2, upper: 1.8 })!, /no probability mass/);
+    assert.equal(validateModifiers(discrete, coin, { lower: 1, upper: 1.5 }), null);
+    assert.match(validateModifiers(normal, n01, { lower: 1, upper: 1 })!, /lower bound must be less/);
+    assert.match(validateModifiers(normal, n01, { shift: NaN })!, /shift must be a number/);
+});
@@ -0,0 +1,240 @@
+/* ---------------------------------------------------------------
+ * modifiers.ts — Truncation and shift for any distribution
+ *
+ * A modified input is X' = X + shift, restricted to [lower, upper].
+ * Truncated inputs are sampled by inverse transform: draw u from
+ * the CDF range [F(a), F(b)] of the bounds and map it back through
+ * the inverse CDF, so every draw lands inside the bounds without
+ * rejection and without piling mass on the bounds like a clamp.
+ * --------------------------------------------------------------- */
+
+import { DistributionDef, DistributionModifiers, DistributionParams, RandomStream } from "./types";
+import { formatParam } from "./catalog";
+
+/** Number of strata used to integrate the truncated mean */
+const MEAN_STRATA = 512;
+
+// ── Helpers ─────────────────────────────────────────────────────
+
+function shiftOf(m?: DistributionModifiers): number {
+    return m?.shift ?? 0;
+}
+
+function isTruncated(m?: DistributionModifiers): boolean {
+    return m?.lower !== undefined || m?.upper !== undefined;
+}
+
+/** True if any modifier is set */
+export function hasModifiers(m?: DistributionModifiers): boolean {
+    return isTruncated(m) || shiftOf(m) !== 0;
+}
+
+/** P(X < x) — equal to the CDF for continuous distributions */
+function cdfBelow(def: DistributionDef, p: DistributionParams, x: number): number {
+    return def.discrete ? def.cdf(p, x) - def.pdf(p, x) : def.cdf(p, x);
+}
+
+/** CDF range [F(a⁻), F(b)] covered by the bounds, in base (unshifted) space */
+function massBounds(
+    def: DistributionDef,
+    p: DistributionParams,
+    m?: DistributionModifiers
+): [number, number] {
+    const shift = shiftOf(m);
+    const lo = m?.lower !== undefined ? Math.max(0, cdfBelow(def, p, m.lower - shift)) : 0;
+    const hi = m?.upper !== undefined ? Math.min(1, def.cdf(p, m.upper - shift)) : 1;
+    return [lo, hi];
+}
+
+// ── Inverse CDF ─────────────────────────────────────────────────
+
+/**
+ * Smallest x with F(x) ≥ u.  Uses the family's own quantile
+ * function when it has one, otherwise brackets and bisects the CDF.
+ */
+export function invertCdf(def: DistributionDef, p: DistributionParams, u: number): number {
+    u = Math.min(1 - Number.EPSILON, Math.max(Number.EPSILON, u));
+    if (def.quantile) return def.quantile(p, u);
+
+    let [lo, hi] = def.range(p);
+    if (!(lo < hi)) {
+        lo -= 1;
+        hi += 1;
+    }
+
+    // Widen the bracket until F(lo) < u ≤ F(hi)
+    let width = hi - lo;
+    for (let i = 0; i < 100 && def.cdf(p, lo) >= u; i++) {
+        lo -= width;
+        width *= 2;
+    }
+    width = hi - lo;
+    for (let i = 0; i < 100 && def.cdf(p, hi) < u; i++) {
+        hi += width;
+        width *= 2;
+    }
+
+    for (let i = 0; i < 200; i++) {
+        const mid = (lo + hi) / 2;
+        if (mid <= lo || mid >= hi) break;
+        if (def.cdf(p, mid) >= u) hi = mid;
+        else lo = mid;
+    }
+
+    if (!def.discrete) return (lo + hi) / 2;
+
+    // Discrete: hi sits just above the jump — snap to the outcome
+    const k = Math.round(hi);
+    if (Math.abs(k - hi) <= 1e-9 * Math.max(1, Math.abs(hi))) return k;
+    const support = def.support?.(p) ?? [];
+    let best = hi;
+    let bestDist = Infinity;
+    for (const x of support) {
+        const dist = Math.abs(x - hi);
+        if (dist < bestDist) {
+            best = x;
+            bestDist = dist;
+        }
+    }
+    return best;
+}
+
+// ── Validation ──────────────────────────────────────────────────
+
+/** Return an error message for invalid modifiers, or null when valid */
+export function validateModifiers(
+    def: DistributionDef,
+    p: DistributionParams,
+    m?: DistributionModifiers
+): string | null {
+    if (!m) return null;
+    for (const key of ["lower", "upper", "shift"] as const) {
+        const v = m[key];
+        if (v !== undefined && !isFinite(v)) return `${key} must be a number`;
+    }
+    if (m.lower !== undefined && m.upper !== undefined && m.lower >= m.upper) {
+        return "lower bound must be less than upper bound";
+    }
+    if (isTruncated(m)) {
+        const [lo, hi] = massBounds(def, p, m);
+        if (hi - lo <= 1e-12) return "no probability mass between the truncation bounds";
+    }
+    return null;
+}
+
+// ── Modified sampler, mean, PDF, CDF ────────────────────────────
+
+export function sampleModified(
+    def: DistributionDef,
+    p: DistributionParams,
+    m: DistributionModifiers | undefined,
+    rng: RandomStream
+): number {
+    if (!isTruncated(m)) return def.sample(p, rng) + shiftOf(m);
+    return modifiedQuantile(def, p, m, rng.next());
+}
+
+/**
+ * Inverse CDF of the modified distribution.  An inexact inverse can
+ * land a hair outside the bounds, so the base value is clamped to
+ * them before it is shifted.
+ */
+export function modifiedQuantile(
+    def: DistributionDef,
+    p: DistributionParams,
+    m: DistributionModifiers | undefined,
+    u: number
+): number {
+    const shift = shiftOf(m);
+    const [lo, hi] = massBounds(def, p, m);
+    let x = invertCdf(def, p, lo + u * (hi - lo));
+    if (m?.lower !== undefined) x = Math.max(x, m.lower - shift);
+    if (m?.upper !== undefined) x = Math.min(x, m.upper - shift);
+    return x + shift;
+}
+
+export function modifiedMean(
+    def: DistributionDef,
+    p: DistributionParams,
+    m?: DistributionModifiers
+): number {
+    if (!isTruncated(m)) return def.mean(p) + shiftOf(m);
+
+    // E[X | a ≤ X ≤ b] = average of the inverse CDF over [F(a), F(b)],
+    // integrated with the midpoint rule
+    const [lo, hi] = massBounds(def, p, m);
+    const step = (hi - lo) / MEAN_STRATA;
+    let sum = 0;
+    for (let i = 0; i < MEAN_STRATA; i++) {
+        sum += invertCdf(def, p, lo + (i + 0.5) * step);
+    }
+    return sum / MEAN_STRATA + shiftOf(m);
+}
+
+export function modifiedPdf(
+    def: DistributionDef,
+    p: DistributionParams,
+    m: DistributionModifiers | undefined,
+    x: number
+): number {
+    if (m?.lower !== undefined && x < m.lower) return 0;
+    if (m?.upper !== undefined && x > m.upper) return 0;
+    const [lo, hi] = massBounds(def, p, m);
+    return def.pdf(p, x - shiftOf(m)) / (hi - lo);
+}
+
+export function modifiedCdf(
+    def: DistributionDef,
+    p: DistributionParams,
+    m: DistributionModifiers | undefined,
+    x: number
+): number {
+    if (m?.lower !== undefined && x < m.lower) return 0;
+    if (m?.upper !== undefined && x >= m.upper) return 1;
+    const [lo, hi] = massBounds(def, p, m);
+    return Math.min(1, Math.max(0, (def.cdf(p, x - shiftOf(m)) - lo) / (hi - lo)));
+}
+
+/** x-range to plot in previews */
+export function modifiedRange(
+    def: DistributionDef,
+    p: DistributionParams,
+    m?: DistributionModifiers
+): [number, number] {
+    const shift = shiftOf(m);
+    if (!isTruncated(m)) {
+        const [a, b] = def.range(p);
+        return [a + shift, b + shift];
+    }
+    const [lo, hi] = massBounds(def, p, m);
+    const tail = (hi - lo) * 0.001;
+    return [invertCdf(def, p, lo + tail) + shift, invertCdf(def, p, hi - tail) + shift];
+}
+
+/** Possible outcomes of a discrete distribution after modifiers */
+export function modifiedSupport(
+    def: DistributionDef,
+    p: DistributionParams,
+    m?: DistributionModifiers
+): number[] {
+    if (!def.support) return [];
+    const shift = shiftOf(m);
+    return def
+        .support(p)
+        .map((x) => x + shift)
+        .filter((x) => (m?.lower === undefined || x >= m.lower) && (m?.upper === undefined || x <= m.upper));
+}
+
+/** Short annotation, e.g. " [0, 100] +5", or "" when unmodified */
+export function describeModifiers(m?: DistributionModifiers): string {
+    if (!hasModifiers(m)) return "";
+    let out = "";
+    if (isTruncated(m)) {
+        const lo = m?.lower !== undefined ? formatParam(m.lower) : "−∞";
+        const hi = m?.upper !== undefined ? formatParam(m.upper) : "∞";
+        out += ` [${lo}, ${hi}]`;
+    }
+    const shift = shiftOf(m);
+    if (shift !== 0) out += ` ${shift > 0 ? "+" : "−"}${formatParam(Math.abs(shift))}`;
+    return out;
+}
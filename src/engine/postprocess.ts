@@ -0,0 +1,79 @@
+/* ---------------------------------------------------------------
+ * postprocess.ts — Statistics, chart summaries & sensitivity for a
+ *                  finished (or paused) run
+ *
+ * This is the heavy part after the iteration loop: a sort per
+ * output, for exact percentiles (its moments the run already
+ * gathered), and a rank sort per input per output.  It is pure, so it
+ * can run in place (CLI, tests) or in a Web Worker (task pane,
+ * statsWorker.ts) without freezing the UI.  The columns travel to
+ * the worker as transferred buffers and come back with the result.
+ * --------------------------------------------------------------- */
+
+import { CDFPoint, HistogramBin, OutputStatistics, SensitivityResult } from "./types";
+import { RunningStatistics, summarizeValues } from "./statistics";
+import { computeSensitivity } from "./sensitivity";
+
+export interface PostProcessRequest {
+    confidenceLevel: number;
+    /** Per output, the statistics gathered during the run */
+    statistics: RunningStatistics[];
+    inputNames: string[];
+    inputIds: string[];
+    /** Per output, its value in each kept iteration (NaN where it failed) */
+    outputValues: Float64Array[];
+    /** Per input, its sample in each kept iteration */
+    inputSamples: Float64Array[];
+}
+
+export interface OutputSummary {
+    stats: OutputStatistics;
+    histogram: HistogramBin[];
+    cdf: CDFPoint[];
+}
+
+export interface PostProcessResult {
+    /** In outputValues order */
+    summaries: OutputSummary[];
+    /** Per output, in outputValues order */
+    sensitivity: SensitivityResult[][];
+    /** The request's columns, handed back */
+    outputValues: Float64Array[];
+    inputSamples: Float64Array[];
+}
+
+/** Runs post-processing somewhere — in place or in a worker */
+export type PostProcessor = (request: PostProcessRequest) => Promise<PostProcessResult>;
+
+export function postProcess(request: PostProcessRequest): PostProcessResult {
+    const { outputValues, inputSamples, inputNames, inputIds } = request;
+
+    const summaries = outputValues.map((values, k) => summarizeValues(values, request.statistics[k], request.confidenceLevel));
+
+    const sensitivity = outputValues.map((values) => {
+        // Iterations in which this output failed are left out
+        if (values.every(Number.isFinite)) {
+            return computeSensitivity(inputSamples, values, inputNames, inputIds);
+        }
+        const rows: number[] = [];
+        values.forEach((v, i) => {
+            if (Number.isFinite(v)) rows.push(i);
+        });
+        return computeSensitivity(
+            inputSamples.map((col) => Float64Array.from(rows, (i) => col[i])),
+            Float64Array.from(rows, (i) => values[i]),
+            inputNames,
+            inputIds
+        );
+    });
+
+    return { summaries, sensitivity, outputValues, inputSamples };
+}
+
+/** Post-process on the calling thread */
+export const postProcessInline: PostProcessor = async (request) => postProcess(request);
+
+/** The buffers behind the columns, to transfer rather than copy */
+export function columnBuffers(...columns: Float64Array[][]): ArrayBuffer[] {
+    return columns.flat().map((col) => col.buffer as ArrayBuffer);
+}
@@ -0,0 +1,162 @@
+/* ---------------------------------------------------------------
+ * quantile.test.ts — Quantiles, CDFs and densities of the catalog
+ *
+ * Every built-in family must invert its own CDF, and agree with
+ * values worked out by hand or taken from Excel's functions of the
+ * same name.
+ * --------------------------------------------------------------- */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { DistributionDef, DistributionParams } from "./types";
+import { getDistribution, listDistributions } from "./registry";
+import { inverseRegularizedBeta, inverseRegularizedGamma, inverseStdNormalCDF, regularizedBeta, regularizedGamma } from "./special";
+
+/** One example of each family, with parameters away from the easy cases */
+const EXAMPLES: Record<string, DistributionParams> = {
+    normal: { mean: 10, stdev: 2 },
+    uniform: { min: 2, max: 4 },
+    triangular: { min: 0, mode: 1, max: 4 },
+    pert: { min: 0, mode: 2, max: 10 },
+    lognormal: { mu: 0.5, sigma: 0.8 },
+    discrete: { values: [3, 1, 2], probs: [3, 2, 5] },
+    beta: { alpha: 0.7, beta: 2.5 },
+    gamma: { shape: 2.5, scale: 3 },
+    weibull: { shape: 1.5, scale: 2 },
+    exponential: { mean: 2 },
+    studentt: { df: 3.5 },
+    poisson: { lambda: 4.2 },
+    binomial: { n: 12, p: 0.3 },
+    bernoulli: { p: 0.3 },
+    empirical: { data: [5, 1, 3, 3, 8] },
+    cumul: { min: 0, max: 10, x: [2, 5], p: [0.1, 0.7] },
+    general: { min: 0, max: 10, x: [2, 5], density: [1, 3] },
+};
+
+/** A family and its example parameters, prepared the way a custom function does */
+function example(type: string): [DistributionDef, DistributionParams] {
+    const def = getDistribution(type);
+    if (!def) assert.fail(`no distribution "${type}"`);
+    const params = EXAMPLES[type];
+    assert.equal(def.validate(params), null, type);
+    return [def, def.prepare ? def.prepare(params) : params];
+}
+
+const close = (actual: number, expected: number, tolerance: number, label: string) =>
+    assert.ok(Math.abs(actual - expected) <= tolerance, `${label}: ${actual}, expected ${expected}`);
+
+test("every built-in family has an example", () => {
+    assert.deepEqual(
+        listDistributions().map((d) => d.type).sort(),
+        Object.keys(EXAMPLES).sort()
+    );
+});
+
+test("quantile(cdf(x)) gives x back for the continuous families", () => {
+    for (const def of listDistributions().filter((d) => !d.discrete)) {
+        const [, params] = example(def.type);
+        const [lo, hi] = def.range(params);
+        for (let i = 1; i < 20; i++) {
+            const x = lo + ((hi - lo) * i) / 20;
+            const u = def.cdf(params, x);
+            if (u <= 0 || u >= 1) continue;
+            close(def.quantile!(params, u), x, 1e-7 * Math.max(1, Math.abs(x)), `${def.type} at ${x}`);
+        }
+    }
+});
+
+test("quantile(cdf(k)) gives k back for the discrete families", () => {
+    for (const def of listDistributions().filter((d) => d.discrete)) {
+        const [, params] = example(def.type);
+        for (const k of def.support!(params)) {
+            const u = def.cdf(params, k);
+            if (u >= 1 - 1e-12) continue;
+            assert.equal(def.quantile!(params, u), k, `${def.type} at ${k}`);
+            // Just past F(k) the next outcome is drawn
+            assert.ok(def.quantile!(params, u + 1e-9) > k, `${def.type} past ${k}`);
+        }
+    }
+});
+
+test("the density integrates to the CDF", () => {
+    for (const def of listDistributions().filter((d) => !d.discrete)) {
+        const [, params] = example(def.type);
+        const u = [0.2, 0.5, 0.8];
+        const [a, b] = [def.quantile!(params, u[0]), def.quantile!(params, u[2])];
+        // Simpson's rule between the 20th and 80th percentiles
+        const steps = 2000;
+        const h = (b - a) / steps;
+        let sum = def.pdf(params, a) + def.pdf(params, b);
+        for (let i = 1; i < steps; i++) sum += (i % 2 ? 4 : 2) * def.pdf(params, a + i * h);
+        close((sum * h) / 3, u[2] - u[0], 1e-4, def.type);
+    }
+});
+
+test("known values", () => {
+    const value = (type: string, params: DistributionParams) => {
+        const def = getDistribution(type)!;
+        return [def, def.prepare ? def.prepare(params) : params] as const;
+    };
+    const [normal, n01] = value("normal", { mean: 0, stdev: 1 });
+    close(normal.quantile!(n01, 0.975), 1.959963984540054, 1e-9, "NORM.S.INV(0.975)");
+    close(normal.cdf(n01, -1), 0.15865525393145707, 1e-12, "NORM.S.DIST(-1)");
+    close(normal.pdf(n01, 0), 1 / Math.sqrt(2 * Math.PI), 1e-15, "normal density at 0");
+
+    const [beta, b23] = value("beta", { alpha: 2, beta: 3 });
+    close(beta.cdf(b23, 0.5), 11 / 16, 1e-12, "BETA.DIST(0.5,2,3)");
+    close(beta.quantile!(b23, 11 / 16), 0.5, 1e-10, "BETA.INV(11/16,2,3)");
+    close(beta.pdf(b23, 0.5), 1.5, 1e-12, "beta(2,3) density at 0.5");
+    const [, bHalf] = value("beta", { alpha: 0.5, beta: 0.5 });
+    close(beta.quantile!(bHalf, 0.25), 0.1464466094067262, 1e-9, "arcsine quartile");
+
+    const [gamma, g21] = value("gamma", { shape: 2, scale: 1 });
+    close(gamma.cdf(g21, 1), 1 - 2 / Math.E, 1e-12, "GAMMA.DIST(1,2,1)");
+    const [studentt, t1] = value("studentt", { df: 1 });
+    close(studentt.quantile!(t1, 0.75), 1, 1e-9, "Cauchy quartile");
+    const [, t10] = value("studentt", { df: 10 });
+    close(studentt.quantile!(t10, 0.975), 2.2281388519649385, 1e-8, "T.INV(0.975,10)");
+    const [weibull, w21] = value("weibull", { shape: 2, scale: 1 });
+    close(weibull.cdf(w21, 1), 1 - 1 / Math.E, 1e-12, "WEIBULL.DIST(1,2,1)");
+    const [pert, p] = value("pert", { min: 0, mode: 5, max: 10 });
+    close(pert.quantile!(p, 0.5), 5, 1e-9, "symmetric PERT median");
+
+    const [poisson, p2] = value("poisson", { lambda: 2 });
+    close(poisson.cdf(p2, 2), 5 * Math.exp(-2), 1e-12, "POISSON.DIST(2,2,TRUE)");
+    close(poisson.pdf(p2, 2), 2 * Math.exp(-2), 1e-12, "POISSON.DIST(2,2,FALSE)");
+    assert.equal(poisson.pdf(p2, 1.5), 0);
+    assert.equal(poisson.quantile!(p2, 0.5), 2);
+    const [binomial, b10] = value("binomial", { n: 10, p: 0.5 });
+    close(binomial.cdf(b10, 4), 386 / 1024, 1e-12, "BINOM.DIST(4,10,0.5,TRUE)");
+    close(binomial.pdf(b10, 5), 252 / 1024, 1e-12, "BINOM.DIST(5,10,0.5,FALSE)");
+    assert.equal(binomial.quantile!(b10, 386 / 1024), 4);
+    assert.equal(binomial.quantile!(b10, 0.999999), 10);
+    const [bernoulli, b3] = value("bernoulli", { p: 0.3 });
+    assert.equal(bernoulli.quantile!(b3, 0.7), 0);
+    assert.equal(bernoulli.quantile!(b3, 0.71), 1);
+    const [discrete, d] = value("discrete", { values: [3, 1, 2], probs: [3, 2, 5] });
+    assert.equal(discrete.quantile!(d, 0.2), 1);
+    assert.equal(discrete.quantile!(d, 0.21), 2);
+    close(discrete.cdf(d, 2.5), 0.7, 1e-12, "discrete CDF between outcomes");
+    close(discrete.pdf(d, 3), 0.3, 1e-12, "discrete mass");
+    const [empirical, e] = value("empirical", { data: [3, 1, 2, 2] });
+    assert.equal(empirical.quantile!(e, 0.5), 2);
+    assert.equal(empirical.cdf(e, 2), 0.75);
+
+    const [cumul, c] = value("cumul", { min: 0, max: 10, x: [5], p: [0.8] });
+    close(cumul.cdf(c, 2.5), 0.4, 1e-12, "cumul CDF");
+    close(cumul.quantile!(c, 0.9), 7.5, 1e-12, "cumul quantile");
+    const [general, g] = value("general", { min: 0, max: 2, x: [1], density: [5] });
+    close(general.cdf(g, 1), 0.5, 1e-12, "triangular general CDF");
+    close(general.pdf(g, 1), 1, 1e-12, "general density scaled to unit area");
+});
+
+test("special functions at their edges", () => {
+    assert.equal(inverseStdNormalCDF(0.5), 0);
+    close(inverseStdNormalCDF(1e-10), -6.361340902404056, 1e-6, "far lower tail");
+    close(regularizedBeta(0.3, 1, 1), 0.3, 1e-14, "I(0.3; 1, 1)");
+    assert.equal(regularizedBeta(0, 2, 3), 0);
+    assert.equal(regularizedBeta(1, 2, 3), 1);
+    close(inverseRegularizedBeta(regularizedBeta(0.01, 0.3, 5), 0.3, 5), 0.01, 1e-10, "skewed beta inverse");
+    close(regularizedGamma(1, 2), 1 - Math.exp(-2), 1e-14, "P(1, 2)");
+    close(inverseRegularizedGamma(regularizedGamma(0.2, 0.05), 0.2), 0.05, 1e-10, "small-shape gamma inverse");
+});
@@ -0,0 +1,149 @@
+/* ---------------------------------------------------------------
+ * quantile.ts — Inverse cumulative distribution (quantile)
+ *               functions.  Each returns the smallest x with
+ *               F(x) ≥ u.
+ *
+ * Pure math, no Excel dependency.  Exact closed forms where they
+ * exist; otherwise Halley-refined inverses of the incomplete beta
+ * and gamma functions, or a short search for integer families.
+ * --------------------------------------------------------------- */
+
+import { pertShape } from "./distributions";
+import { poissonCDF, binomialCDF } from "./density";
+import {
+    inverseStdNormalCDF,
+    inverseRegularizedBeta,
+    inverseRegularizedGamma,
+} from "./special";
+
+// ── Continuous ──────────────────────────────────────────────────
+
+export function normalQuantile(u: number, mean: number, stdev: number): number {
+    return mean + stdev * inverseStdNormalCDF(u);
+}
+
+export function uniformQuantile(u: number, min: number, max: number): number {
+    return min + u * (max - min);
+}
+
+export function triangularQuantile(u: number, min: number, mode: number, max: number): number {
+    const fc = (mode - min) / (max - min);
+    if (u < fc) return min + Math.sqrt(u * (max - min) * (mode - min));
+    return max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+export function betaQuantile(u: number, alpha: number, beta: number): number {
+    return inverseRegularizedBeta(u, alpha, beta);
+}
+
+/** PERT quantile via the inverse regularised incomplete beta function */
+export function pertQuantile(u: number, min: number, mode: number, max: number): number {
+    const [a, b] = pertShape(min, mode, max);
+    return min + (max - min) * inverseRegularizedBeta(u, a, b);
+}
+
+export function lognormalQuantile(u: number, mu: number, sigma: number): number {
+    return Math.exp(mu + sigma * inverseStdNormalCDF(u));
+}
+
+export function gammaQuantile(u: number, shape: number, scale: number): number {
+    return scale * inverseRegularizedGamma(u, shape);
+}
+
+export function weibullQuantile(u: number, shape: number, scale: number): number {
+    return scale * Math.pow(-Math.log1p(-u), 1 / shape);
+}
+
+export function exponentialQuantile(u: number, mean: number): number {
+    return -mean * Math.log1p(-u);
+}
+
+export function studentTQuantile(u: number, df: number): number {
+    if (u === 0.5) return 0;
+    // Two-sided tail probability → inverse incomplete beta
+    const tail = u < 0.5 ? 2 * u : 2 * (1 - u);
+    const x = inverseRegularizedBeta(tail, df / 2, 0.5);
+    const t = Math.sqrt(df * (1 / x - 1));
+    return u < 0.5 ? -t : t;
+}
+
+// ── Discrete ────────────────────────────────────────────────────
+
+/** Walk from an initial guess to the smallest integer k with F(k) ≥ u */
+function searchInteger(
+    u: number,
+    guess: number,
+    lo: number,
+    hi: number,
+    cdf: (k: number) => number
+): number {
+    let k = Math.min(hi, Math.max(lo, Math.round(guess)));
+    while (k > lo && cdf(k - 1) >= u) k--;
+    while (k < hi && cdf(k) < u) k++;
+    return k;
+}
+
+export function poissonQuantile(u: number, lambda: number): number {
+    const guess = lambda + Math.sqrt(lambda) * inverseStdNormalCDF(u);
+    return searchInteger(u, guess, 0, Infinity, (k) => poissonCDF(k, lambda));
+}
+
+export function binomialQuantile(u: number, n: number, p: number): number {
+    const guess = n * p + Math.sqrt(n * p * (1 - p)) * inverseStdNormalCDF(u);
+    return searchInteger(u, guess, 0, n, (k) => binomialCDF(k, n, p));
+}
+
+export function bernoulliQuantile(u: number, p: number): number {
+    return u <= 1 - p ? 0 : 1;
+}
+
+export function discreteQuantile(u: number, values: number[], probs: number[]): number {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    let cumulative = 0;
+    for (const i of order) {
+        cumulative += probs[i];
+        if (cumulative >= u) return values[i];
+    }
+    return values[order[order.length - 1]];
+}
+
+/** Bootstrap quantile; data must be sorted ascending */
+export function empiricalQuantile(u: number, data: number[]): number {
+    const i = Math.ceil(u * data.length) - 1;
+    return data[Math.min(data.length - 1, Math.max(0, i))];
+}
+
+// ── Piecewise-linear shapes ─────────────────────────────────────
+
+export function cumulQuantile(u: number, xs: number[], ps: number[]): number {
+    let i = 1;
+    while (i < xs.length - 1 && u > ps[i]) i++;
+    const dp = ps[i] - ps[i - 1];
+    if (dp <= 0) return xs[i - 1];
+    return xs[i - 1] + ((u - ps[i - 1]) / dp) * (xs[i] - xs[i - 1]);
+}
+
+/** Inverse of the piecewise-quadratic CDF of a piecewise-linear density */
+export function generalQuantile(u: number, xs: number[], ds: number[]): number {
+    let area = 0;
+    for (let i = 1; i < xs.length; i++) {
+        const h = xs[i] - xs[i - 1];
+        const seg = 0.5 * (ds[i - 1] + ds[i]) * h;
+        if (area + seg >= u || i === xs.length - 1) {
+            // Solve f0·s + ½·slope·s² = u − area for s in [0, h]
+            const target = Math.max(0, Math.min(seg, u - area));
+            const f0 = ds[i - 1];
+            const slope = (ds[i] - f0) / h;
+            let s: number;
+            if (Math.abs(slope) < 1e-12 * Math.max(1, f0)) {
+                s = f0 > 0 ? target / f0 : 0;
+            } else {
+                // Numerically stable root of ½·slope·s² + f0·s − target = 0
+                s = (2 * target) / (f0 + Math.sqrt(Math.max(0, f0 * f0 + 2 * slope * target)));
+            }
+            return xs[i - 1] + Math.min(h, Math.max(0, s));
+        }
+        area += seg;
+    }
+    return xs[xs.length - 1];
+}
@@ -0,0 +1,96 @@
+/* ---------------------------------------------------------------
+ * registry.ts — Distribution registry
+ *
+ * Single lookup table of distribution families.  Seeded with the
+ * built-in catalogue; new families are added with
+ * defineDistribution() and become available to the engine, the
+ * custom functions and the task pane without further wiring.
+ * Alternative parameterisations (percentile or moment entry points)
+ * are registered alongside and resolve to a native family.
+ * --------------------------------------------------------------- */
+
+import {
+    DistributionDef,
+    DistributionModifiers,
+    DistributionParams,
+    DistributionType,
+    ParameterisationDef,
+    RandomStream,
+} from "./types";
+import { BUILTIN_DISTRIBUTIONS, BUILTIN_PARAMETERISATIONS } from "./catalog";
+import { sampleModified, modifiedMean, modifiedQuantile } from "./modifiers";
+
+const _defs = new Map<DistributionType, DistributionDef>(
+    BUILTIN_DISTRIBUTIONS.map((d) => [d.type, d])
+);
+
+/** Add (or replace) a distribution family */
+export function defineDistribution(def: DistributionDef): void {
+    _defs.set(def.type, def);
+}
+
+/** Look up a distribution family, or undefined if unknown */
+export function getDistribution(type: DistributionType): DistributionDef | undefined {
+    return _defs.get(type);
+}
+
+/** All registered distribution families, in registration order */
+export function listDistributions(): DistributionDef[] {
+    return Array.from(_defs.values());
+}
+
+// ── Alternative parameterisations ───────────────────────────────
+
+const _alternatives = new Map<string, ParameterisationDef>(
+    BUILTIN_PARAMETERISATIONS.map((a) => [a.functionId, a])
+);
+
+/** Add (or replace) an alternative parameterisation */
+export function defineParameterisation(alt: ParameterisationDef): void {
+    _alternatives.set(alt.functionId, alt);
+}
+
+/** Look up an alternative parameterisation by function ID */
+export function getParameterisation(functionId: string): ParameterisationDef | undefined {
+    return _alternatives.get(functionId);
+}
+
+/** All alternative parameterisations, in registration order */
+export function listParameterisations(): ParameterisationDef[] {
+    return Array.from(_alternatives.values());
+}
+
+function requireDistribution(type: DistributionType): DistributionDef {
+    const def = _defs.get(type);
+    if (!def) throw new Error(`Unknown distribution: ${type}`);
+    return def;
+}
+
+// ── Generic dispatchers ─────────────────────────────────────────
+
+export function sampleDistribution(
+    type: DistributionType,
+    params: DistributionParams,
+    modifiers: DistributionModifiers | undefined,
+    rng: RandomStream
+): number {
+    return sampleModified(requireDistribution(type), params, modifiers, rng);
+}
+
+export function staticValue(
+    type: DistributionType,
+    params: DistributionParams,
+    modifiers?: DistributionModifiers
+): number {
+    return modifiedMean(requireDistribution(type), params, modifiers);
+}
+
+/** Inverse CDF at cumulative probability u */
+export function quantileValue(
+    type: DistributionType,
+    params: DistributionParams,
+    modifiers: DistributionModifiers | undefined,
+    u: number
+): number {
+    return modifiedQuantile(requireDistribution(type), params, modifiers, u);
+}
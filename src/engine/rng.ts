@@ -0,0 +1,102 @@
+/* ---------------------------------------------------------------
+ * rng.ts — Independent pseudo-random number streams
+ *
+ * Every input gets its own xoshiro128** stream, seeded from the run
+ * seed and the input's stable ID.  Adding, removing or reordering
+ * other MC.* cells therefore leaves an input's draws unchanged, so
+ * seeded runs stay comparable while the model is edited.
+ *
+ * Pure math, no Excel dependency.
+ * --------------------------------------------------------------- */
+
+import { RandomStream } from "./types";
+
+// ── Seeding ─────────────────────────────────────────────────────
+
+/** One SplitMix32 step: advances `state` and returns a mixed word */
+function splitMix32(state: { s: number }): number {
+    state.s = (state.s + 0x9e3779b9) >>> 0;
+    let t = state.s ^ (state.s >>> 16);
+    t = Math.imul(t, 0x21f0aaad);
+    t ^= t >>> 15;
+    t = Math.imul(t, 0x735a2d97);
+    t ^= t >>> 15;
+    return t >>> 0;
+}
+
+/** 32-bit FNV-1a hash of a string */
+function hashString(key: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        h ^= key.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/** Seed for the stream identified by `key` within a run */
+export function streamSeed(runSeed: number, key: string): number {
+    const state = { s: (runSeed ^ hashString(key)) >>> 0 };
+    return splitMix32(state);
+}
+
+/** A fresh non-zero 32-bit seed for runs without a fixed seed */
+export function randomSeed(): number {
+    return 1 + Math.floor(Math.random() * 0xfffffffe);
+}
+
+// ── Streams ─────────────────────────────────────────────────────
+
+/**
+ * Add polar Box-Muller normals to a uniform source.  Each stream
+ * keeps its own spare, so normals never leak between inputs.
+ */
+function withNormals(next: () => number): RandomStream {
+    let hasSpare = false;
+    let spare = 0;
+    return {
+        next,
+        normal(): number {
+            if (hasSpare) {
+                hasSpare = false;
+                return spare;
+            }
+            let u: number, v: number, s: number;
+            do {
+                u = next() * 2 - 1;
+                v = next() * 2 - 1;
+                s = u * u + v * v;
+            } while (s >= 1 || s === 0);
+            const mul = Math.sqrt(-2 * Math.log(s) / s);
+            spare = v * mul;
+            hasSpare = true;
+            return u * mul;
+        },
+    };
+}
+
+/** Seeded xoshiro128** stream */
+export function createStream(seed: number): RandomStream {
+    // SplitMix32 expands the seed into the 4 state words
+    const init = { s: seed >>> 0 };
+    const s = new Uint32Array(4);
+    for (let i = 0; i < 4; i++) s[i] = splitMix32(init);
+
+    return withNormals(() => {
+        const r = Math.imul(s[1] * 5, 7);
+        const result = ((r << 9) | (r >>> 23)) * 9;
+        const t = s[1] << 9;
+        s[2] ^= s[0];
+        s[3] ^= s[1];
+        s[1] ^= s[2];
+        s[0] ^= s[3];
+        s[2] ^= t;
+        s[3] = (s[3] << 11) | (s[3] >>> 21);
+        return (result >>> 0) / 4294967296;
+    });
+}
+
+/** Unseeded stream over Math.random, for draws outside a run */
+export function mathRandomStream(): RandomStream {
+    return withNormals(Math.random);
+}
@@ -0,0 +1,109 @@
+/* ---------------------------------------------------------------
+ * sampling.ts — Input sampling strategies
+ *
+ * Monte Carlo mode draws each input independently on every
+ * iteration.  Latin Hypercube mode splits [0, 1) into one stratum
+ * per iteration for each input, draws one uniform inside every
+ * stratum, shuffles the strata and maps them through the input's
+ * inverse CDF — so each input covers its whole range, tails
+ * included, in every run.  Either way, correlated inputs are then
+ * reordered to their target rank correlation (see correlation.ts).
+ * --------------------------------------------------------------- */
+
+import { DistributionInput, RandomStream, SimulationConfig } from "./types";
+import { sampleDistribution, quantileValue } from "./registry";
+import { createStream, streamSeed } from "./rng";
+import { ResolvedCorrelation, imanConover } from "./correlation";
+
+/** Returns the sampled value of every input for one iteration (iterations are asked for in order) */
+export type IterationSampler = (iter: number) => number[];
+
+/** Iterations per block of up-front columns when the run has no fixed length */
+const OPEN_ENDED_BLOCK = 10000;
+
+/** n stratified uniforms, one per interval [k/n, (k+1)/n), in random order */
+export function stratifiedUniforms(n: number, rng: RandomStream): number[] {
+    const u: number[] = new Array(n);
+    for (let k = 0; k < n; k++) {
+        u[k] = (k + rng.next()) / n;
+    }
+    // Fisher-Yates shuffle
+    for (let i = n - 1; i > 0; i--) {
+        const j = Math.floor(rng.next() * (i + 1));
+        const tmp = u[i];
+        u[i] = u[j];
+        u[j] = tmp;
+    }
+    return u;
+}
+
+/** Independent pseudo-random samples for one input over the whole run */
+function monteCarloColumn(input: DistributionInput, n: number, rng: RandomStream): number[] {
+    const out: number[] = new Array(n);
+    for (let i = 0; i < n; i++) {
+        out[i] = sampleDistribution(input.type, input.params, input.modifiers, rng);
+    }
+    return out;
+}
+
+/** Latin Hypercube samples for one input over the whole run */
+function latinHypercubeColumn(input: DistributionInput, n: number, rng: RandomStream): number[] {
+    return stratifiedUniforms(n, rng).map((u) =>
+        quantileValue(input.type, input.params, input.modifiers, u)
+    );
+}
+
+/**
+ * Build the per-iteration sampler for a run.  LHS and correlated
+ * runs generate every column up front: the strata must span the
+ * full iteration count, and Iman-Conover reorders whole columns.
+ * Runs that end on time or when stopped have no count to span, so
+ * their columns are built a block at a time, each block a complete
+ * Latin Hypercube and correlated on its own.
+ *
+ * Each input draws from its own stream keyed by its ID, so its
+ * samples under a given seed do not depend on the other inputs.
+ */
+export function createSampler(
+    inputs: DistributionInput[],
+    config: SimulationConfig,
+    runSeed: number,
+    correlation?: ResolvedCorrelation | null
+): IterationSampler {
+    const streams = inputs.map((inp) => createStream(streamSeed(runSeed, inp.id)));
+
+    const lhs = config.samplingMethod === "lhs";
+    if (!lhs && !correlation) {
+        return () =>
+            inputs.map((inp, i) =>
+                sampleDistribution(inp.type, inp.params, inp.modifiers, streams[i])
+            );
+    }
+
+    const makeColumn = lhs ? latinHypercubeColumn : monteCarloColumn;
+    const blockSize = config.runMode === "iterations" ? config.iterations : OPEN_ENDED_BLOCK;
+    const correlationStream = createStream(streamSeed(runSeed, "correlation"));
+
+    const makeBlock = (): number[][] => {
+        const columns = inputs.map((inp, i) => makeColumn(inp, blockSize, streams[i]));
+        if (correlation) {
+            imanConover(
+                correlation.indices.map((i) => columns[i]),
+                correlation.matrix,
+                correlationStream
+            );
+        }
+        return columns;
+    };
+
+    let block = 0;
+    let columns = makeBlock();
+    return (iter) => {
+        const b = Math.floor(iter / blockSize);
+        if (b !== block) {
+            block = b;
+            columns = makeBlock();
+        }
+        return columns.map((col) => col[iter - b * blockSize]);
+    };
+}
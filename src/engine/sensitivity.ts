@@ -14,14 +14,14 @@ import { SensitivityResult } from "./types";
 /**
  * Compute sensitivity results for one output.
  *
- * @param inputSamples  Matrix: rows = iterations, cols = input variables
- * @param outputValues  Array of output values (one per iteration)
+ * @param inputSamples  One column per input variable, one entry per iteration
+ * @param outputValues  Output value in each iteration
  * @param inputNames    Names of input variables
  * @param inputIds      IDs of input variables
  */
 export function computeSensitivity(
-    inputSamples: number[][],
-    outputValues: number[],
+    inputSamples: Float64Array[],
+    outputValues: Float64Array,
     inputNames: string[],
     inputIds: string[]
 ): SensitivityResult[] {
@@ -30,16 +30,14 @@ export function computeSensitivity(
     if (n < 3 || numInputs === 0) return [];
 
     const results: SensitivityResult[] = [];
+    // The output's ranks are shared by every input
+    const outputRanks = ranks(outputValues);
 
     for (let j = 0; j < numInputs; j++) {
-        // Extract column j
-        const x: number[] = new Array(n);
-        for (let i = 0; i < n; i++) {
-            x[i] = inputSamples[i]?.[j] ?? 0;
-        }
+        const x = inputSamples[j] ?? new Float64Array(n);
 
         const src = standardisedRegressionCoefficient(x, outputValues);
-        const rho = spearmanRankCorrelation(x, outputValues);
+        const rho = standardisedRegressionCoefficient(ranks(x), outputRanks);
 
         results.push({
             inputId: inputIds[j],
@@ -55,7 +53,7 @@ export function computeSensitivity(
 }
 
 /** Standardised regression coefficient (bivariate) */
-function standardisedRegressionCoefficient(x: number[], y: number[]): number {
+function standardisedRegressionCoefficient(x: Float64Array, y: Float64Array): number {
     const n = x.length;
     const mx = mean(x);
     const my = mean(y);
@@ -73,41 +71,34 @@ function standardisedRegressionCoefficient(x: number[], y: number[]): number {
     return cov / (sx * sy);
 }
 
-/** Spearman rank correlation */
-function spearmanRankCorrelation(x: number[], y: number[]): number {
-    const n = x.length;
-    const rx = ranks(x);
-    const ry = ranks(y);
-    return standardisedRegressionCoefficient(rx, ry);
-}
-
-/** Compute ranks (1-based, average ties) */
-function ranks(arr: number[]): number[] {
+/** Compute ranks (1-based, average ties); Spearman's ρ is the correlation of ranks */
+function ranks(arr: Float64Array): Float64Array {
     const n = arr.length;
-    const indexed = arr.map((val, idx) => ({ val, idx }));
-    indexed.sort((a, b) => a.val - b.val);
+    const order = new Uint32Array(n);
+    for (let i = 0; i < n; i++) order[i] = i;
+    order.sort((a, b) => arr[a] - arr[b]);
 
-    const result = new Array<number>(n);
+    const result = new Float64Array(n);
     let i = 0;
     while (i < n) {
         let j = i;
-        while (j < n - 1 && indexed[j + 1].val === indexed[i].val) j++;
+        while (j < n - 1 && arr[order[j + 1]] === arr[order[i]]) j++;
         const avgRank = (i + j) / 2 + 1;
         for (let k = i; k <= j; k++) {
-            result[indexed[k].idx] = avgRank;
+            result[order[k]] = avgRank;
         }
         i = j + 1;
     }
     return result;
 }
 
-function mean(arr: number[]): number {
+function mean(arr: Float64Array): number {
     let s = 0;
     for (let i = 0; i < arr.length; i++) s += arr[i];
     return s / arr.length;
 }
 
-function stdDev(arr: number[], m: number): number {
+function stdDev(arr: Float64Array, m: number): number {
     let s = 0;
     for (let i = 0; i < arr.length; i++) {
         const d = arr[i] - m;
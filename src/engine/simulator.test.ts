@@ -0,0 +1,215 @@
+/* ---------------------------------------------------------------
+ * simulator.test.ts — Runs through a function host
+ *
+ * Drives runSimulation end to end on small JavaScript models: the
+ * same seed must give the same results, Latin Hypercube and rank
+ * correlations must show up in the samples, and each error policy
+ * must treat failed outputs as documented.
+ * --------------------------------------------------------------- */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { SimulationConfig, SimulationProgress } from "./types";
+import { FunctionInputSpec, ModelHost, createFunctionHost } from "./host";
+import { pauseSimulation, resumeSimulation, runSimulation } from "./simulator";
+import { computeStatistics } from "./statistics";
+import { MIN_ITERATIONS } from "../shared/constants";
+
+const config = (overrides: Partial<SimulationConfig> = {}): SimulationConfig => ({
+    runMode: "iterations",
+    iterations: 2000,
+    timeLimitSeconds: 30,
+    seed: 42,
+    samplingMethod: "montecarlo",
+    batchSize: 100,
+    confidenceLevel: 0.9,
+    probabilityThreshold: 0,
+    errorPolicy: "skip",
+    ...overrides,
+});
+
+const inputs: FunctionInputSpec[] = [
+    { name: "A", type: "uniform", params: { min: 0, max: 1 } },
+    { name: "B", type: "normal", params: { mean: 10, stdev: 2 } },
+];
+
+const sumHost = () => createFunctionHost(inputs, ["Total"], ({ A, B }) => ({ Total: A + B }));
+
+/** Spearman rank correlation of two equal-length columns */
+function rankCorrelation(x: ArrayLike<number>, y: ArrayLike<number>): number {
+    const ranks = (v: ArrayLike<number>) => {
+        const order = Array.from(v, (_, i) => i).sort((a, b) => v[a] - v[b]);
+        const r = new Array<number>(v.length);
+        order.forEach((idx, rank) => (r[idx] = rank));
+        return r;
+    };
+    const rx = ranks(x);
+    const ry = ranks(y);
+    const n = rx.length;
+    let d2 = 0;
+    for (let i = 0; i < n; i++) d2 += (rx[i] - ry[i]) ** 2;
+    return 1 - (6 * d2) / (n * (n * n - 1));
+}
+
+// Engine progress logging would drown the test report
+console.log = () => undefined;
+
+test("a fixed seed gives identical results", async () => {
+    const first = await runSimulation(config(), undefined, sumHost());
+    const second = await runSimulation(config(), undefined, sumHost());
+    assert.equal(first.iterations, 2000);
+    assert.deepEqual(second.outputs[0].stats, first.outputs[0].stats);
+    assert.deepEqual(second.inputSamples, first.inputSamples);
+    assert.deepEqual(second.sensitivity, first.sensitivity);
+
+    const other = await runSimulation(config({ seed: 43 }), undefined, sumHost());
+    assert.notDeepEqual(other.inputSamples, first.inputSamples);
+});
+
+test("the statistics match the model", async () => {
+    const results = await runSimulation(config({ iterations: 20000 }), undefined, sumHost());
+    const stats = results.outputs[0].stats;
+    // Total = U(0,1) + N(10,2): mean 10.5, sd √(1/12 + 4)
+    assert.ok(Math.abs(stats.mean - 10.5) < 0.05, `mean ${stats.mean}`);
+    assert.ok(Math.abs(stats.stdDev - Math.sqrt(1 / 12 + 4)) < 0.05, `sd ${stats.stdDev}`);
+    assert.equal(stats.count, 20000);
+    assert.equal(stats.errorCount, 0);
+});
+
+test("percentiles are exact, for skewed and discrete outputs too", async () => {
+    const shapes: FunctionInputSpec[] = [
+        { name: "Skewed", type: "lognormal", params: { mu: 0, sigma: 1.5 } },
+        { name: "Coin", type: "discrete", params: { values: [0, 100], probs: [0.5, 0.5] } },
+        { name: "Count", type: "poisson", params: { lambda: 2 } },
+    ];
+    const names = shapes.map((shape) => shape.name);
+    const host = createFunctionHost(shapes, names, (values) => values);
+    for (const samplingMethod of ["montecarlo", "lhs"] as const) {
+        const results = await runSimulation(
+            config({ iterations: MIN_ITERATIONS, samplingMethod, confidenceLevel: 0.8 }),
+            undefined,
+            host
+        );
+        for (const { name, stats, values, cdf, histogram } of results.outputs) {
+            const exact = computeStatistics(values, 0.8, 0);
+            const label = `${samplingMethod} ${name}`;
+            assert.deepEqual(stats.percentiles, exact.percentiles, label);
+            assert.equal(stats.median, exact.median, label);
+            assert.deepEqual(stats.confidenceInterval, exact.confidenceInterval, label);
+            assert.equal(stats.minimum, exact.minimum, label);
+            assert.equal(stats.maximum, exact.maximum, label);
+            assert.equal(stats.mode, exact.mode, label);
+            assert.ok(Math.abs(stats.mean - exact.mean) < 1e-9 * Math.abs(exact.mean), label);
+            assert.ok(Math.abs(stats.stdDev - exact.stdDev) < 1e-9 * exact.stdDev, label);
+            assert.equal(cdf[cdf.length - 1].cdf, 1, label);
+            assert.equal(histogram.reduce((sum, bin) => sum + bin.count, 0), MIN_ITERATIONS, label);
+        }
+    }
+});
+
+test("Latin Hypercube puts one sample in each stratum", async () => {
+    const n = 1000;
+    const results = await runSimulation(config({ iterations: n, samplingMethod: "lhs" }), undefined, sumHost());
+    const strata = Array.from(results.inputSamples[0], (u) => Math.floor(u * n)).sort((a, b) => a - b);
+    assert.deepEqual(strata, Array.from({ length: n }, (_, i) => i));
+});
+
+test("rank correlations are applied", async () => {
+    const host = createFunctionHost(inputs, ["Total"], ({ A, B }) => ({ Total: A + B }), [
+        { id: "corr:1", cellAddress: "", names: ["A", "B"], matrix: [[1, 0.8], [0.8, 1]] },
+    ]);
+    for (const samplingMethod of ["montecarlo", "lhs"] as const) {
+        const results = await runSimulation(config({ iterations: 5000, samplingMethod }), undefined, host);
+        const rho = rankCorrelation(results.inputSamples[0], results.inputSamples[1]);
+        assert.ok(Math.abs(rho - 0.8) < 0.05, `${samplingMethod}: rank correlation ${rho}`);
+    }
+    const uncorrelated = await runSimulation(config({ iterations: 5000 }), undefined, sumHost());
+    assert.ok(Math.abs(rankCorrelation(uncorrelated.inputSamples[0], uncorrelated.inputSamples[1])) < 0.05);
+});
+
+/** Ratio = 1 / (A - 0.5), failing whenever A rounds to 0.5; Sum never fails */
+const failingHost = () =>
+    createFunctionHost(inputs, ["Ratio", "Sum"], ({ A, B }) => ({
+        Ratio: Math.abs(A - 0.5) < 0.05 ? NaN : 1 / (A - 0.5),
+        Sum: A + B,
+    }));
+
+test("the skip policy drops failed iterations", async () => {
+    const results = await runSimulation(config({ errorPolicy: "skip" }), undefined, failingHost());
+    assert.ok(results.failureCount > 0);
+    assert.equal(results.iterations, 2000 - results.failureCount);
+    for (const out of results.outputs) {
+        assert.equal(out.values.length, results.iterations);
+        assert.ok(out.values.every(Number.isFinite));
+    }
+    assert.ok(results.failures.every((f) => f.errors.length === 1 && f.errors[0].outputId === "Ratio"));
+    assert.equal(results.warnings.length, 1);
+});
+
+test("the nan policy keeps failed iterations as NaN", async () => {
+    const results = await runSimulation(config({ errorPolicy: "nan" }), undefined, failingHost());
+    const [ratio, sum] = results.outputs;
+    assert.equal(results.iterations, 2000);
+    assert.ok(results.failureCount > 0);
+    assert.equal(ratio.stats.errorCount, results.failureCount);
+    assert.equal(ratio.stats.count, 2000 - results.failureCount);
+    assert.equal(ratio.values.filter(Number.isNaN).length, results.failureCount);
+    assert.equal(sum.stats.errorCount, 0);
+    assert.equal(sum.stats.count, 2000);
+});
+
+test("the stop policy ends the run with an error", async () => {
+    await assert.rejects(runSimulation(config({ errorPolicy: "stop" }), undefined, failingHost()), /Ratio/);
+});
+
+test("open() rejects lists that are not the model's", async () => {
+    const host = sumHost();
+    const [a] = host.getInputs();
+    await assert.rejects(host.open(config(), [a], host.getOutputs()), /inputs added: B/);
+    await assert.rejects(
+        host.open(config(), host.getInputs(), [{ id: "Other", cellAddress: "", name: "Other" }]),
+        /outputs removed: Other; outputs added: Total/
+    );
+});
+
+/** Pauses once, after the first batch, and resumes straight away */
+function pauseOnce(): (p: SimulationProgress) => void {
+    let paused = false;
+    return (p) => {
+        if (p.status === "running" && !paused) {
+            paused = true;
+            pauseSimulation();
+        }
+        if (p.status === "paused") resumeSimulation();
+    };
+}
+
+test("pausing and resuming gives the same results", async () => {
+    const straight = await runSimulation(config(), undefined, sumHost());
+    const resumed = await runSimulation(config(), pauseOnce(), sumHost());
+    assert.deepEqual(resumed.inputSamples, straight.inputSamples);
+    assert.deepEqual(resumed.outputs[0].stats, straight.outputs[0].stats);
+});
+
+test("resuming fails if the model's cells changed while paused", async () => {
+    const inner = sumHost();
+    let opened = 0;
+    // Opens against a model that lost input B after the first open
+    const host: ModelHost = {
+        ...inner,
+        open: (cfg, runInputs, runOutputs) =>
+            opened++ === 0
+                ? inner.open(cfg, runInputs, runOutputs)
+                : createFunctionHost(inputs.slice(0, 1), ["Total"], ({ A }) => ({ Total: A })).open(
+                      cfg,
+                      runInputs,
+                      runOutputs
+                  ),
+    };
+    await assert.rejects(runSimulation(config(), pauseOnce(), host), /Cannot resume: .*inputs removed: B/);
+});
+
+test("inputs with the same name stop the run", async () => {
+    const host = createFunctionHost([...inputs, { ...inputs[0] }], ["Total"], ({ A, B }) => ({ Total: A + B }));
+    await assert.rejects(runSimulation(config(), undefined, host), /A \(another input has the same name\)/);
+});
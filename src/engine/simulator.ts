@@ -1,43 +1,216 @@
 /* ---------------------------------------------------------------
  * simulator.ts — Monte Carlo simulation orchestrator
  *
- * Runs the iteration loop by:
- *  1. Reading registered distribution inputs & outputs from storage
- *  2. Backing up original cell formulas
- *  3. For each iteration:
- *     a. Sample all distributions
- *     b. Write sampled values to input cells
- *     c. Trigger Excel recalculation
- *     d. Read output cell values
- *  4. Restore original formulas
- *  5. Compute statistics & sensitivity
+ * Host-agnostic: the model to simulate is a ModelHost (host.ts),
+ * by default the open workbook (excelHost.ts).  A run:
+ *  1. Reads the host's distribution inputs, outputs & correlations
+ *  2. Opens a session on the host
+ *  3. For each batch of iterations:
+ *     a. Sample all distributions (Monte Carlo or Latin Hypercube,
+ *        with any rank correlations applied)
+ *     b. Have the host turn the samples into output values
+ *     c. In convergence mode, stop once the statistics settle
+ *  4. Restores the model
+ *  5. Computes statistics & sensitivity (postprocess.ts), in a
+ *     Web Worker when the caller supplies one
+ *
+ * A run ends after its iteration count, after a time limit, or when
+ * stopped (see RunMode); stopping keeps the iterations done so far.
+ *
+ * A run can be paused between batches: the model is restored so
+ * the workbook can be inspected, statistics so far are reported,
+ * and resuming reopens the model and carries on with the same
+ * random streams.
+ *
+ * Samples and output values are kept in Float64Array columns, one
+ * per input and one per output, doubled in size as they fill, so a
+ * million iterations cost 8 bytes per value and no per-iteration
+ * objects.  Each output's moments are gathered as its values are
+ * kept; summarizing sorts each column once, for exact percentiles.
  * --------------------------------------------------------------- */
 
-/* global Excel */
-
 import {
+    DistributionInput,
+    EvaluationMode,
     SimulationConfig,
     SimulationResults,
-    SimulationOutput,
+    OutputGroupResults,
     OutputResults,
     SimulationProgress,
-    DistributionInput,
+    SimulationOutput,
+    ConvergenceResults,
+    IterationFailure,
+    OutputValue,
+    SensitivityResult,
 } from "./types";
-import {
-    sampleDistribution,
-    seedRng,
-    setUseSeededRng,
-    resetSamplerState,
-} from "./distributions";
-import { computeStatistics } from "./statistics";
-import { computeSensitivity } from "./sensitivity";
-import { getInputs, getOutputs, setSimulating, setCurrentIteration } from "../shared/storage";
+import { createSampler } from "./sampling";
+import { randomSeed } from "./rng";
+import { resolveCorrelations } from "./correlation";
+import { PostProcessor, postProcessInline } from "./postprocess";
+import { StatisticsAccumulator, createStatisticsAccumulator } from "./statistics";
+import { createConvergenceTracker, validateConvergence } from "./convergence";
+import { HostSession, ModelHost } from "./host";
+import { createExcelHost } from "./excelHost";
+import { setCurrentIteration } from "../shared/storage";
+import { MAX_ITERATIONS, MAX_RECORDED_FAILURES } from "../shared/constants";
 
 /** Cancellation flag */
 let _cancelled = false;
 
+/** Set to end the run after the batch in progress, keeping its results */
+let _stopRequested = false;
+
+/** Pause flag, and the callback that releases a paused run */
+let _pauseRequested = false;
+let _release: (() => void) | null = null;
+
 export function cancelSimulation(): void {
     _cancelled = true;
+    releasePause();
+}
+
+/** End the run once the batch in progress finishes and compute statistics on what it completed */
+export function stopSimulation(): void {
+    _stopRequested = true;
+    releasePause();
+}
+
+/** Pause the run once the batch in progress finishes */
+export function pauseSimulation(): void {
+    _pauseRequested = true;
+}
+
+export function resumeSimulation(): void {
+    _pauseRequested = false;
+    releasePause();
+}
+
+function releasePause(): void {
+    const release = _release;
+    _release = null;
+    release?.();
+}
+
+interface RunInfo {
+    seed: number;
+    evaluation: EvaluationMode;
+    elapsedMs: number;
+    warnings: string[];
+    convergence?: ConvergenceResults;
+}
+
+/** Kept iterations the result columns start with room for */
+const INITIAL_CAPACITY = 4096;
+
+/** What the iteration loop has gathered so far */
+interface Collected {
+    /** Iterations kept so far; column entries past this are unused */
+    kept: number;
+    /** Per output, its value in each kept iteration (NaN where it failed) */
+    outputValues: Float64Array[];
+    /** Per input, its sample in each kept iteration */
+    inputSamples: Float64Array[];
+    /** Per output, the statistics of its finite values so far */
+    statistics: StatisticsAccumulator[];
+    /** Per output, the iterations in which it failed */
+    errorCounts: number[];
+    failures: IterationFailure[];
+    failureCount: number;
+}
+
+/** Copy columns into larger ones */
+function grow(columns: Float64Array[], size: number): Float64Array[] {
+    return columns.map((col) => {
+        const next = new Float64Array(size);
+        next.set(col);
+        return next;
+    });
+}
+
+/**
+ * The first `kept` entries of each column, as columns of their own
+ * that can be handed to the post-processor.  `copy` is needed while
+ * the loop will still write to the originals.
+ */
+function trimColumns(columns: Float64Array[], kept: number, copy: boolean): Float64Array[] {
+    return columns.map((col) => (col.length === kept && !copy ? col : col.slice(0, kept)));
+}
+
+/** Statistics, range-output groups and sensitivity for the iterations so far */
+async function summarize(
+    config: SimulationConfig,
+    inputs: DistributionInput[],
+    outputs: SimulationOutput[],
+    collected: Collected,
+    info: RunInfo,
+    postProcessor: PostProcessor,
+    copy: boolean
+): Promise<SimulationResults> {
+    const { kept } = collected;
+    const inputNames = inputs.map((i) => i.name);
+
+    // ── Statistics, chart summaries & sensitivity ───────────────
+    const processed = await postProcessor({
+        confidenceLevel: config.confidenceLevel,
+        statistics: collected.statistics.map((acc) => acc.statistics()),
+        inputNames,
+        inputIds: inputs.map((i) => i.id),
+        outputValues: trimColumns(collected.outputValues, kept, copy),
+        inputSamples: trimColumns(collected.inputSamples, kept, copy),
+    });
+
+    const outputResults: OutputResults[] = outputs.map((out, idx) => {
+        const { stats, histogram, cdf } = processed.summaries[idx];
+        return {
+            outputId: out.id,
+            name: out.name,
+            cellAddress: out.cellAddress,
+            group: out.group,
+            values: processed.outputValues[idx],
+            // Skipped iterations are not in the values, but still count
+            stats: { ...stats, errorCount: collected.errorCounts[idx] },
+            histogram,
+            cdf,
+        };
+    });
+
+    // ── Collect the periods of range outputs ────────────────────
+    const groupMap = new Map<string, OutputGroupResults>();
+    for (const res of outputResults) {
+        if (!res.group) continue;
+        let group = groupMap.get(res.group.id);
+        if (!group) {
+            group = { id: res.group.id, name: res.group.name, periods: [] };
+            groupMap.set(group.id, group);
+        }
+        group.periods.push(res);
+    }
+    const groups = Array.from(groupMap.values());
+    groups.forEach((g) => g.periods.sort((a, b) => a.group!.index - b.group!.index));
+
+    const sensitivityMap = new Map<string, SensitivityResult[]>();
+    outputs.forEach((out, k) => sensitivityMap.set(out.id, processed.sensitivity[k]));
+
+    return {
+        config,
+        outputs: outputResults,
+        groups,
+        sensitivity: sensitivityMap,
+        iterations: kept,
+        inputNames,
+        failures: collected.failures,
+        failureCount: collected.failureCount,
+        ...info,
+        inputSamples: processed.inputSamples,
+    };
+}
+
+/** Message for a run stopped by a failed output */
+function describeFailure(failure: IterationFailure, outputs: SimulationOutput[], inputs: DistributionInput[]): string {
+    const { outputId, value } = failure.errors[0];
+    const name = outputs.find((o) => o.id === outputId)?.name ?? outputId;
+    const samples = inputs.map((inp, j) => `${inp.name} = ${Number(failure.inputs[j].toPrecision(6))}`);
+    return `Output "${name}" showed ${value} in iteration ${failure.iteration} (${samples.join(", ")})`;
 }
 
 /**
@@ -45,15 +218,20 @@ export function cancelSimulation(): void {
  *
  * @param config         Simulation settings
  * @param onProgress     Callback for progress updates
+ * @param host           Model to simulate (default: the open workbook)
+ * @param postProcessor  Where statistics & sensitivity are computed (default: this thread)
  * @returns              Full simulation results
  */
 export async function runSimulation(
     config: SimulationConfig,
-    onProgress?: (p: SimulationProgress) => void
+    onProgress?: (p: SimulationProgress) => void,
+    host: ModelHost = createExcelHost(),
+    postProcessor: PostProcessor = postProcessInline
 ): Promise<SimulationResults> {
     _cancelled = false;
-    const inputs = getInputs();
-    const outputs = getOutputs();
+    _stopRequested = false;
+    const inputs = host.getInputs();
+    const outputs = host.getOutputs();
 
     if (inputs.length === 0) {
         throw new Error(
@@ -65,183 +243,249 @@ export async function runSimulation(
             "No output cells found. Use MC.Output() to mark output cells first."
         );
     }
+    const invalid = inputs.filter((inp) => inp.error);
+    if (invalid.length > 0) {
+        throw new Error(
+            `Fix invalid inputs before running: ${invalid
+                .map((inp) => `${inp.name} (${inp.error})`)
+                .join("; ")}`
+        );
+    }
 
-    // Setup PRNG
-    if (config.seed > 0) {
-        seedRng(config.seed);
-        setUseSeededRng(true);
-    } else {
-        setUseSeededRng(false);
+    if (config.convergence) {
+        const problem = validateConvergence(config.convergence);
+        if (problem) throw new Error(problem);
+    }
+    if (config.runMode === "time" && !(config.timeLimitSeconds > 0)) {
+        throw new Error("Time limit must be more than 0 seconds");
     }
-    resetSamplerState();
 
-    setSimulating(true);
-    const startTime = Date.now();
+    // Runs that end on time or when stopped still end at MAX_ITERATIONS
+    const limit = config.runMode === "iterations" ? config.iterations : MAX_ITERATIONS;
+    const timeLimitMs = config.runMode === "time" ? config.timeLimitSeconds * 1000 : Infinity;
+
+    // Correlations are checked before anything touches the model
+    const correlation = resolveCorrelations(inputs, host.getCorrelations());
+    const warnings = correlation ? [...correlation.warnings] : [];
+
+    // "Random" runs still use a seed, so they can be reproduced later
+    const seed = config.seed > 0 ? config.seed : randomSeed();
+    console.log(`[MC] Seed: ${seed}${config.seed > 0 ? "" : " (random)"}`);
+    const sampleIteration = createSampler(inputs, config, seed, correlation);
+    const tracker = config.convergence
+        ? createConvergenceTracker(outputs.map((o) => o.id), config.convergence)
+        : null;
+
+    // Moved forward by time spent paused, so elapsed counts running time only
+    let startTime = Date.now();
 
     // Results collectors
-    const outputValues: number[][] = outputs.map(() => []);
-    const inputSamples: number[][] = [];
+    const collected: Collected = {
+        kept: 0,
+        outputValues: outputs.map(() => new Float64Array(Math.min(limit, INITIAL_CAPACITY))),
+        inputSamples: inputs.map(() => new Float64Array(Math.min(limit, INITIAL_CAPACITY))),
+        statistics: outputs.map(() => createStatisticsAccumulator(config.probabilityThreshold)),
+        errorCounts: outputs.map(() => 0),
+        failures: [],
+        failureCount: 0,
+    };
+
+    /** Record an iteration in which some outputs failed */
+    const recordFailure = (iteration: number, samples: number[], row: OutputValue[]): IterationFailure => {
+        const errors: IterationFailure["errors"] = [];
+        row.forEach((v, k) => {
+            if (typeof v === "number") return;
+            errors.push({ outputId: outputs[k].id, value: v });
+            collected.errorCounts[k]++;
+        });
+        const failure = { iteration, inputs: samples, errors };
+        collected.failureCount++;
+        if (collected.failures.length < MAX_RECORDED_FAILURES) collected.failures.push(failure);
+        return failure;
+    };
 
-    // Store original formulas and run iterations
+    const reportProgress = (done: number) => {
+        if (!onProgress) return;
+        const elapsed = Date.now() - startTime;
+        const ips = (done / elapsed) * 1000;
+        let remaining = 0;
+        if (config.runMode === "time") remaining = Math.max(0, timeLimitMs - elapsed);
+        else if (config.runMode === "iterations" && ips > 0) remaining = ((limit - done) / ips) * 1000;
+        onProgress({
+            status: _cancelled ? "cancelled" : "running",
+            currentIteration: done,
+            totalIterations: limit,
+            iterationsPerSecond: ips,
+            elapsedMs: elapsed,
+            estimatedRemainingMs: remaining,
+        });
+    };
+
+    // ── Iteration Loop ──────────────────────────────────────────
+    _pauseRequested = false;
+    let evaluation: EvaluationMode;
     try {
-        await Excel.run(async (ctx) => {
-            const sheet = ctx.workbook.worksheets.getActiveWorksheet();
-
-            // Load original formulas for input cells
-            const inputRanges = inputs.map((inp) => {
-                const range = sheet.getRange(inp.cellAddress);
-                range.load("formulas");
-                return range;
-            });
-
-            // Load output cell formulas so we can parse out the real reference
-            const outputFormulaRanges = outputs.map((out) => {
-                const range = sheet.getRange(out.cellAddress);
-                range.load("formulas");
-                return range;
-            });
-
-            await ctx.sync();
-
-            // Save original formulas
-            const originalFormulas = inputRanges.map(
-                (r) => r.formulas[0][0] as string
-            );
-
-            // Parse MC.OUTPUT formulas to find the real cell references
-            // e.g. "=MC.OUTPUT(B11, \"EV\")" → "B11"
-            // We read from these native cells instead of the custom function cells
-            const outputReadRanges = outputs.map((out, idx) => {
-                const formula = outputFormulaRanges[idx].formulas[0][0] as string;
-                console.log(`[MC] Output "${out.name}" formula: ${formula}`);
-                const match = formula.match(/MC\.OUTPUT\s*\(\s*([A-Za-z]+\d+)/i);
-                if (match) {
-                    console.log(`[MC] → reading from native cell: ${match[1]}`);
-                    const refRange = sheet.getRange(match[1]);
-                    refRange.load("values");
-                    return refRange;
+        let session: HostSession | null = await host.open(config, inputs, outputs);
+        evaluation = session.evaluation;
+        try {
+            for (let start = 0; start < limit; start += session.batchSize) {
+                if (_cancelled) break;
+                if (_stopRequested) {
+                    console.log(`[MC] Stopped after ${start} iterations`);
+                    break;
                 }
-                // Fallback: read the output cell itself
-                console.log(`[MC] → no cell ref found, reading output cell directly`);
-                const fallback = sheet.getRange(out.cellAddress);
-                fallback.load("values");
-                return fallback;
-            });
+                const end = Math.min(start + session.batchSize, limit);
 
-            await ctx.sync();
+                // Sample all inputs
+                const batch: number[][] = [];
+                for (let iter = start; iter < end; iter++) batch.push(sampleIteration(iter));
 
-            try {
-                // ── Iteration Loop ──────────────────────────────
-                const batchSize = 1; // One iteration per Excel.run sync
+                const results: OutputValue[][] = await session.evaluate(batch);
+                const kept: number[][] = [];
+                for (let r = 0; r < results.length; r++) {
+                    const values = results[r].map((v) => (typeof v === "number" ? v : NaN));
+                    if (values.some((v) => isNaN(v))) {
+                        const failure = recordFailure(start + r + 1, batch[r], results[r]);
+                        if (config.errorPolicy === "stop") {
+                            throw new Error(describeFailure(failure, outputs, inputs));
+                        }
+                        if (config.errorPolicy === "skip") continue;
+                    }
+                    const at = collected.kept++;
+                    if (at === collected.outputValues[0].length) {
+                        const size = Math.min(at * 2, limit);
+                        collected.outputValues = grow(collected.outputValues, size);
+                        collected.inputSamples = grow(collected.inputSamples, size);
+                    }
+                    for (let j = 0; j < inputs.length; j++) collected.inputSamples[j][at] = batch[r][j];
+                    for (let k = 0; k < outputs.length; k++) {
+                        collected.outputValues[k][at] = values[k];
+                        if (Number.isFinite(values[k])) collected.statistics[k].add(values[k]);
+                    }
+                    kept.push(values);
+                }
+                tracker?.record(end, kept);
 
-                for (let iter = 0; iter < config.iterations; iter++) {
-                    if (_cancelled) break;
+                setCurrentIteration(end);
 
-                    // Sample all inputs
-                    const samples: number[] = [];
-                    for (let j = 0; j < inputs.length; j++) {
-                        const val = sampleDistribution(
-                            inputs[j].type,
-                            inputs[j].params
-                        );
-                        samples.push(val);
-                        inputRanges[j].values = [[val]];
-                    }
-                    inputSamples.push(samples);
+                // Progress callback, once per batch
+                reportProgress(end);
 
-                    // Recalculate
-                    ctx.application.calculate(Excel.CalculationType.full);
+                // ── Convergence ─────────────────────────────────
+                if (tracker && tracker.convergedAt() !== null) {
+                    console.log(`[MC] Converged after ${end} iterations`);
+                    break;
+                }
 
-                    // Read outputs from the NATIVE referenced cells (not MC.OUTPUT)
-                    for (const r of outputReadRanges) {
-                        r.load("values");
-                    }
-                    await ctx.sync();
+                // ── Time limit ──────────────────────────────────
+                if (Date.now() - startTime >= timeLimitMs) {
+                    console.log(`[MC] Time limit reached after ${end} iterations`);
+                    break;
+                }
 
-                    for (let k = 0; k < outputs.length; k++) {
-                        const val = outputReadRanges[k].values[0][0];
-                        outputValues[k].push(
-                            typeof val === "number" ? val : parseFloat(String(val)) || 0
+                // ── Pause ───────────────────────────────────────
+                if (_pauseRequested && !_cancelled && !_stopRequested && end < limit) {
+                    const pausedAt = Date.now();
+                    const toRestore: HostSession = session;
+                    session = null;
+                    await toRestore.restore();
+                    console.log(`[MC] Paused after ${end} iterations`);
+
+                    const released = new Promise<void>((resolve) => (_release = resolve));
+                    if (onProgress) {
+                        const elapsedMs = pausedAt - startTime;
+                        const paused = {
+                            currentIteration: end,
+                            totalIterations: limit,
+                            iterationsPerSecond: (end / elapsedMs) * 1000,
+                            elapsedMs,
+                            estimatedRemainingMs: 0,
+                        };
+                        onProgress({ ...paused, status: "computing" });
+                        const interim = await summarize(
+                            config,
+                            inputs,
+                            outputs,
+                            {
+                                ...collected,
+                                errorCounts: collected.errorCounts.slice(),
+                                failures: collected.failures.slice(),
+                            },
+                            { seed, evaluation, elapsedMs, warnings, convergence: tracker?.results() },
+                            postProcessor,
+                            true
                         );
+                        if (!_cancelled) onProgress({ ...paused, status: "paused", interim });
+                    }
+                    await released;
+                    startTime += Date.now() - pausedAt;
+                    if (_cancelled) break;
+                    if (_stopRequested) {
+                        console.log(`[MC] Stopped while paused after ${end} iterations`);
+                        break;
                     }
 
-                    setCurrentIteration(iter + 1);
-
-                    // Progress callback (throttled)
-                    if (onProgress && (iter % 10 === 0 || iter === config.iterations - 1)) {
-                        const elapsed = Date.now() - startTime;
-                        const ips = ((iter + 1) / elapsed) * 1000;
-                        onProgress({
-                            status: _cancelled ? "cancelled" : "running",
-                            currentIteration: iter + 1,
-                            totalIterations: config.iterations,
-                            iterationsPerSecond: ips,
-                            elapsedMs: elapsed,
-                            estimatedRemainingMs:
-                                ips > 0
-                                    ? ((config.iterations - iter - 1) / ips) * 1000
-                                    : 0,
-                        });
+                    // The workbook may have been edited while paused
+                    console.log(`[MC] Resuming at iteration ${end + 1}`);
+                    try {
+                        session = await host.open(config, inputs, outputs);
+                    } catch (error) {
+                        throw new Error(`Cannot resume: ${(error as Error).message}`);
                     }
+                    evaluation = session.evaluation;
+                    reportProgress(end);
                 }
-            } finally {
-                // ── Restore original formulas ───────────────────
-                for (let j = 0; j < inputs.length; j++) {
-                    inputRanges[j].formulas = [[originalFormulas[j]]];
-                }
-                await ctx.sync();
             }
-        });
+        } finally {
+            _release = null;
+            if (session) await session.restore();
+        }
     } catch (error) {
-        console.error("[MC] Simulation failed in runSimulation inside Excel.run:", error);
+        console.error("[MC] Simulation failed in runSimulation:", error);
         throw error; // Re-throw so useSimulation hook can catch and display it
-    } finally {
-        setSimulating(false);
     }
 
     const elapsedMs = Date.now() - startTime;
-
-    // ── Compute statistics ──────────────────────────────────────
-    const outputResults: OutputResults[] = outputs.map((out, idx) => ({
-        outputId: out.id,
-        name: out.name,
-        cellAddress: out.cellAddress,
-        values: outputValues[idx],
-        stats: computeStatistics(outputValues[idx], config.confidenceLevel, config.probabilityThreshold),
-    }));
-
-    // ── Compute sensitivity for each output ─────────────────────
-    const sensitivityMap = new Map<string, ReturnType<typeof computeSensitivity>>();
-    const inputNames = inputs.map((i) => i.name);
-    const inputIds = inputs.map((i) => i.id);
-
-    for (let k = 0; k < outputs.length; k++) {
-        const sens = computeSensitivity(
-            inputSamples,
-            outputValues[k],
-            inputNames,
-            inputIds
+    const done = collected.kept + (config.errorPolicy === "skip" ? collected.failureCount : 0);
+    if (collected.failureCount > 0) {
+        const what = config.errorPolicy === "skip" ? "were left out" : "are counted as errors";
+        console.log(`[MC] ${collected.failureCount} iterations had output errors`);
+        warnings.push(
+            `${collected.failureCount.toLocaleString()} iterations had outputs showing an error or text; ` +
+                `they ${what}`
         );
-        sensitivityMap.set(outputs[k].id, sens);
     }
+    if (onProgress && !_cancelled) {
+        onProgress({
+            status: "computing",
+            currentIteration: done,
+            totalIterations: limit,
+            iterationsPerSecond: (done / elapsedMs) * 1000,
+            elapsedMs,
+            estimatedRemainingMs: 0,
+        });
+    }
+    const results = await summarize(
+        config,
+        inputs,
+        outputs,
+        collected,
+        { seed, evaluation, elapsedMs, warnings, convergence: tracker?.results() },
+        postProcessor,
+        false
+    );
 
     // Final progress
     if (onProgress) {
         onProgress({
             status: _cancelled ? "cancelled" : "completed",
-            currentIteration: _cancelled ? 0 : config.iterations,
-            totalIterations: config.iterations,
-            iterationsPerSecond: (config.iterations / elapsedMs) * 1000,
+            currentIteration: _cancelled ? 0 : done,
+            totalIterations: limit,
+            iterationsPerSecond: (done / elapsedMs) * 1000,
             elapsedMs,
             estimatedRemainingMs: 0,
         });
     }
 
-    return {
-        config,
-        outputs: outputResults,
-        sensitivity: sensitivityMap,
-        elapsedMs,
-        inputSamples,
-    };
+    return results;
 }
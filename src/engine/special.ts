@@ -0,0 +1,270 @@
+/* ---------------------------------------------------------------
+ * special.ts — Special functions (log-gamma, incomplete beta and
+ *              gamma, normal CDF).  Pure math, no Excel dependency.
+ * --------------------------------------------------------------- */
+
+const LANCZOS = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/** ln Γ(z) — Lanczos approximation (g = 7), ~15 significant digits */
+export function lnGamma(z: number): number {
+    if (z < 0.5) {
+        // Reflection formula
+        return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * z))) - lnGamma(1 - z);
+    }
+    z -= 1;
+    let x = LANCZOS[0];
+    for (let i = 1; i < LANCZOS.length; i++) x += LANCZOS[i] / (z + i);
+    const t = z + 7.5;
+    return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(x);
+}
+
+/** ln B(a, b) */
+export function lnBeta(a: number, b: number): number {
+    return lnGamma(a) + lnGamma(b) - lnGamma(a + b);
+}
+
+/** Continued fraction for the incomplete beta function (modified Lentz) */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+    const FPMIN = 1e-300;
+    const qab = a + b;
+    const qap = a + 1;
+    const qam = a - 1;
+    let c = 1;
+    let d = 1 - (qab * x) / qap;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    d = 1 / d;
+    let h = d;
+    for (let m = 1; m <= 300; m++) {
+        const m2 = 2 * m;
+        let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+        d = 1 + aa * d;
+        if (Math.abs(d) < FPMIN) d = FPMIN;
+        c = 1 + aa / c;
+        if (Math.abs(c) < FPMIN) c = FPMIN;
+        d = 1 / d;
+        h *= d * c;
+        aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+        d = 1 + aa * d;
+        if (Math.abs(d) < FPMIN) d = FPMIN;
+        c = 1 + aa / c;
+        if (Math.abs(c) < FPMIN) c = FPMIN;
+        d = 1 / d;
+        const del = d * c;
+        h *= del;
+        if (Math.abs(del - 1) < 3e-16) break;
+    }
+    return h;
+}
+
+/** Regularised incomplete beta function I_x(a, b) */
+export function regularizedBeta(x: number, a: number, b: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    const front = Math.exp(a * Math.log(x) + b * Math.log(1 - x) - lnBeta(a, b));
+    if (x < (a + 1) / (a + b + 2)) {
+        return (front * betaContinuedFraction(x, a, b)) / a;
+    }
+    return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/** Standard normal CDF Φ(z) — Hart's algorithm (West, 2005), double precision */
+export function stdNormalCDF(z: number): number {
+    const za = Math.abs(z);
+    let c: number;
+    if (za > 37) {
+        c = 0;
+    } else {
+        const e = Math.exp(-(za * za) / 2);
+        if (za < 7.07106781186547) {
+            let n = 3.52624965998911e-2 * za + 0.700383064443688;
+            n = n * za + 6.37396220353165;
+            n = n * za + 33.912866078383;
+            n = n * za + 112.079291497871;
+            n = n * za + 221.213596169931;
+            n = n * za + 220.206867912376;
+            let d = 8.83883476483184e-2 * za + 1.75566716318264;
+            d = d * za + 16.064177579207;
+            d = d * za + 86.7807322029461;
+            d = d * za + 296.564248779674;
+            d = d * za + 637.333633378831;
+            d = d * za + 793.826512519948;
+            d = d * za + 440.413735824752;
+            c = (e * n) / d;
+        } else {
+            let d = za + 0.65;
+            d = za + 4 / d;
+            d = za + 3 / d;
+            d = za + 2 / d;
+            d = za + 1 / d;
+            c = e / d / 2.506628274631;
+        }
+    }
+    return z > 0 ? 1 - c : c;
+}
+
+/** Regularised lower incomplete gamma function P(a, x) */
+export function regularizedGamma(a: number, x: number): number {
+    if (x <= 0) return 0;
+    if (!isFinite(x)) return 1;
+    const lnFront = a * Math.log(x) - x - lnGamma(a);
+
+    if (x < a + 1) {
+        // Series expansion
+        let ap = a;
+        let del = 1 / a;
+        let sum = del;
+        for (let n = 0; n < 1000; n++) {
+            ap += 1;
+            del *= x / ap;
+            sum += del;
+            if (Math.abs(del) < Math.abs(sum) * 3e-16) break;
+        }
+        return Math.min(1, sum * Math.exp(lnFront));
+    }
+
+    // Continued fraction for Q(a, x) (modified Lentz)
+    const FPMIN = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / FPMIN;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 1000; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < FPMIN) d = FPMIN;
+        c = b + an / c;
+        if (Math.abs(c) < FPMIN) c = FPMIN;
+        d = 1 / d;
+        const del = d * c;
+        h *= del;
+        if (Math.abs(del - 1) < 3e-16) break;
+    }
+    return Math.max(0, 1 - Math.exp(lnFront) * h);
+}
+
+// ── Inverses ────────────────────────────────────────────────────
+
+/** Initial guess for Φ⁻¹(p) used to seed the beta/gamma inverses */
+function roughNormalQuantile(p: number): number {
+    const pp = p < 0.5 ? p : 1 - p;
+    const t = Math.sqrt(-2 * Math.log(pp));
+    const x = (2.30753 + t * 0.27061) / (1 + t * (0.99229 + t * 0.04481)) - t;
+    return p < 0.5 ? x : -x;
+}
+
+const ACKLAM_A = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+const ACKLAM_B = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1];
+const ACKLAM_C = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783];
+const ACKLAM_D = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416];
+
+/** Inverse standard normal CDF Φ⁻¹(p) — Acklam's algorithm with one Halley refinement step */
+export function inverseStdNormalCDF(p: number): number {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+    const [a, b, c, d] = [ACKLAM_A, ACKLAM_B, ACKLAM_C, ACKLAM_D];
+    const pLow = 0.02425;
+    let x: number;
+    if (p < pLow) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    } else if (p <= 1 - pLow) {
+        const q = p - 0.5;
+        const r = q * q;
+        x = ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+            (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+    } else {
+        const q = Math.sqrt(-2 * Math.log(1 - p));
+        x = -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    // Halley refinement against the double-precision CDF
+    const e = stdNormalCDF(x) - p;
+    const u = e * Math.sqrt(2 * Math.PI) * Math.exp((x * x) / 2);
+    return x - u / (1 + (x * u) / 2);
+}
+
+/** Inverse of the regularised incomplete beta function: x with I_x(a, b) = p */
+export function inverseRegularizedBeta(p: number, a: number, b: number): number {
+    if (p <= 0) return 0;
+    if (p >= 1) return 1;
+    const a1 = a - 1;
+    const b1 = b - 1;
+    let x: number;
+
+    // Initial guess (Numerical Recipes, 3rd ed. §6.14)
+    if (a >= 1 && b >= 1) {
+        const z = -roughNormalQuantile(p);
+        const al = (z * z - 3) / 6;
+        const h = 2 / (1 / (2 * a - 1) + 1 / (2 * b - 1));
+        const w = (z * Math.sqrt(al + h)) / h -
+            (1 / (2 * b - 1) - 1 / (2 * a - 1)) * (al + 5 / 6 - 2 / (3 * h));
+        x = a / (a + b * Math.exp(2 * w));
+    } else {
+        const lna = Math.log(a / (a + b));
+        const lnb = Math.log(b / (a + b));
+        const t = Math.exp(a * lna) / a;
+        const u = Math.exp(b * lnb) / b;
+        const w = t + u;
+        x = p < t / w ? Math.pow(a * w * p, 1 / a) : 1 - Math.pow(b * w * (1 - p), 1 / b);
+    }
+
+    // Halley iterations
+    const afac = -lnBeta(a, b);
+    for (let j = 0; j < 20; j++) {
+        if (x <= 0 || x >= 1) return x <= 0 ? 0 : 1;
+        const err = regularizedBeta(x, a, b) - p;
+        const t = Math.exp(a1 * Math.log(x) + b1 * Math.log(1 - x) + afac);
+        const u = err / t;
+        const step = u / (1 - 0.5 * Math.min(1, u * (a1 / x - b1 / (1 - x))));
+        x -= step;
+        if (x <= 0) x = 0.5 * (x + step);
+        if (x >= 1) x = 0.5 * (x + step + 1);
+        if (Math.abs(step) < 1e-14 * x && j > 0) break;
+    }
+    return x;
+}
+
+/** Inverse of the regularised lower incomplete gamma function: x with P(a, x) = p */
+export function inverseRegularizedGamma(p: number, a: number): number {
+    if (p <= 0) return 0;
+    if (p >= 1) return Infinity;
+    const a1 = a - 1;
+    const gln = lnGamma(a);
+    const lna1 = a > 1 ? Math.log(a1) : 0;
+    const afac = a > 1 ? Math.exp(a1 * (lna1 - 1) - gln) : 0;
+    let x: number;
+
+    // Initial guess (Numerical Recipes, 3rd ed. §6.2.1)
+    if (a > 1) {
+        const z = -roughNormalQuantile(p);
+        x = Math.max(1e-3, a * Math.pow(1 - 1 / (9 * a) - z / (3 * Math.sqrt(a)), 3));
+    } else {
+        const t = 1 - a * (0.253 + a * 0.12);
+        x = p < t ? Math.pow(p / t, 1 / a) : 1 - Math.log(1 - (p - t) / (1 - t));
+    }
+
+    // Halley iterations
+    for (let j = 0; j < 20; j++) {
+        if (x <= 0) return 0;
+        const err = regularizedGamma(a, x) - p;
+        const t = a > 1
+            ? afac * Math.exp(-(x - a1) + a1 * (Math.log(x) - lna1))
+            : Math.exp(-x + a1 * Math.log(x) - gln);
+        const u = err / t;
+        const step = u / (1 - 0.5 * Math.min(1, u * (a1 / x - 1)));
+        x -= step;
+        if (x <= 0) x = 0.5 * (x + step);
+        if (Math.abs(step) < 1e-14 * x) break;
+    }
+    return x;
+}
@@ -1,62 +1,181 @@
 /* ---------------------------------------------------------------
  * statistics.ts — Compute descriptive statistics from simulation
- *                 output arrays.  Pure math, no Excel dependency.
+ *                 output columns.  Pure math, no Excel dependency.
+ *
+ * A run gathers each output's moments, extremes and threshold
+ * count while it goes, in a StatisticsAccumulator, so they need no
+ * pass over the values afterwards.  Summarizing then sorts a copy of
+ * the values once, for exact percentiles; the chart summaries and
+ * the mode are binned between the minimum and maximum.
  * --------------------------------------------------------------- */
 
-import { OutputStatistics } from "./types";
+import { CDFPoint, HistogramBin, OutputStatistics } from "./types";
+import { createMoments } from "./streaming";
 
-/** Compute full statistics for an array of simulation output values */
+/** Points on the CDF kept for charting */
+const CDF_POINTS = 300;
+
+/** Order statistics — they need the sorted values */
+type OrderStatistics = Pick<OutputStatistics, "median" | "percentiles" | "confidenceInterval">;
+
+/** Statistics an accumulator can give; percentiles, the mode and the error count need the values */
+export type RunningStatistics = Omit<OutputStatistics, keyof OrderStatistics | "mode" | "errorCount">;
+
+export interface StatisticsAccumulator {
+    /** Add one finite value */
+    add(x: number): void;
+    /** Statistics of the values so far */
+    statistics(): RunningStatistics;
+}
+
+/** Statistics of an output gathered one value at a time */
+export function createStatisticsAccumulator(threshold = 0): StatisticsAccumulator {
+    const moments = createMoments();
+    let minimum = Infinity;
+    let maximum = -Infinity;
+    let below = 0;
+
+    return {
+        add(x) {
+            moments.add(x);
+            if (x < minimum) minimum = x;
+            if (x > maximum) maximum = x;
+            if (x < threshold) below++;
+        },
+        statistics() {
+            const n = moments.count;
+            if (n === 0) return emptyRunning();
+            const { mean, variance, skewness, kurtosis } = moments;
+            return {
+                minimum,
+                maximum,
+                mean,
+                stdDev: Math.sqrt(variance),
+                variance,
+                skewness,
+                kurtosis,
+                probNegative: below / n,
+                count: n,
+            };
+        },
+    };
+}
+
+/**
+ * Full statistics plus the compact chart summaries for one output,
+ * from its accumulated statistics and a single sort of its values.
+ * NaN entries count as errors.  Charts draw from the summaries, so
+ * the raw values are never sorted or binned again.
+ */
+export function summarizeValues(
+    values: ArrayLike<number>,
+    running: RunningStatistics,
+    confidenceLevel = 0.9
+): { stats: OutputStatistics; histogram: HistogramBin[]; cdf: CDFPoint[] } {
+    const { count: n, minimum: min, maximum: max } = running;
+    const errorCount = values.length - n;
+    if (n === 0) return { stats: emptyStats(errorCount), histogram: [], cdf: [] };
+    const sorted = sortedFinite(values);
+    return {
+        stats: {
+            ...running,
+            ...orderStatistics(sorted, confidenceLevel),
+            mode: computeMode(sorted, min, max, n),
+            errorCount,
+        },
+        histogram: histogramOf(values, min, max, n),
+        cdf: cdfOf(values, min, max, n, CDF_POINTS),
+    };
+}
+
+/** The finite values, sorted ascending — iterations recorded as NaN (failed outputs) are left out */
+function sortedFinite(values: ArrayLike<number>): Float64Array {
+    const out = new Float64Array(values.length);
+    let n = 0;
+    for (let i = 0; i < values.length; i++) {
+        if (Number.isFinite(values[i])) out[n++] = values[i];
+    }
+    // Typed arrays sort numerically, in place
+    return (n < out.length ? out.slice(0, n) : out).sort();
+}
+
+/** Count, minimum and maximum of the finite values */
+function finiteRange(values: ArrayLike<number>): { n: number; min: number; max: number } {
+    let n = 0;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < values.length; i++) {
+        const v = values[i];
+        if (!Number.isFinite(v)) continue;
+        n++;
+        if (v < min) min = v;
+        if (v > max) max = v;
+    }
+    return { n, min, max };
+}
+
+/**
+ * Compute full statistics for an array of simulation output values,
+ * with exact percentiles.
+ * NaN entries count as errors and are left out of everything else.
+ */
 export function computeStatistics(
-    values: number[],
+    raw: ArrayLike<number>,
     confidenceLevel = 0.9,
     threshold = 0
 ): OutputStatistics {
-    const n = values.length;
+    const sorted = sortedFinite(raw);
+    return statisticsOfSorted(sorted, raw.length - sorted.length, confidenceLevel, threshold);
+}
+
+function statisticsOfSorted(
+    sorted: Float64Array,
+    errorCount: number,
+    confidenceLevel: number,
+    threshold: number
+): OutputStatistics {
+    const n = sorted.length;
     if (n === 0) {
-        return emptyStats();
+        return emptyStats(errorCount);
     }
 
-    // Sort a copy for percentiles/median
-    const sorted = [...values].sort((a, b) => a - b);
-
     const minimum = sorted[0];
     const maximum = sorted[n - 1];
-    const sum = values.reduce((a, b) => a + b, 0);
-    const mean = sum / n;
-
-    // Median
-    const median =
-        n % 2 === 0
-            ? (sorted[n / 2 - 1] + sorted[n / 2]) / 2
-            : sorted[Math.floor(n / 2)];
-
-    // Variance, StdDev
-    let sumSqDiff = 0;
-    let sumCubDiff = 0;
-    let sumQuadDiff = 0;
+
+    // Mean, variance, skewness and excess kurtosis in one pass
+    const moments = createMoments();
+    let negCount = 0;
     for (let i = 0; i < n; i++) {
-        const diff = values[i] - mean;
-        const d2 = diff * diff;
-        sumSqDiff += d2;
-        sumCubDiff += d2 * diff;
-        sumQuadDiff += d2 * d2;
+        moments.add(sorted[i]);
+        if (sorted[i] < threshold) negCount++;
     }
-    const variance = sumSqDiff / n;
+    const { mean, variance, skewness, kurtosis } = moments;
     const stdDev = Math.sqrt(variance);
 
-    // Skewness (Fisher)
-    const skewness =
-        stdDev > 0 ? (sumCubDiff / n) / (stdDev * stdDev * stdDev) : 0;
+    // Mode (histogram-based approximation)
+    const mode = computeMode(sorted, minimum, maximum, n);
 
-    // Excess kurtosis (Fisher)
-    const kurtosis =
-        stdDev > 0
-            ? (sumQuadDiff / n) / (variance * variance) - 3
-            : 0;
+    // Probability of outcome below threshold
+    const probNegative = negCount / n;
 
-    // Mode (histogram-based approximation)
-    const mode = computeMode(sorted);
+    return {
+        minimum,
+        maximum,
+        mean,
+        ...orderStatistics(sorted, confidenceLevel),
+        mode,
+        stdDev,
+        variance,
+        skewness,
+        kurtosis,
+        probNegative,
+        count: n,
+        errorCount,
+    };
+}
 
+/** Median, percentiles and confidence interval of sorted values */
+function orderStatistics(sorted: Float64Array, confidenceLevel: number): OrderStatistics {
     // Percentiles
     const percentiles = {
         p1: percentile(sorted, 0.01),
@@ -77,32 +196,11 @@ export function computeStatistics(
         percentile(sorted, 1 - alpha),
     ];
 
-    // Probability of outcome below threshold
-    let negCount = 0;
-    for (let i = 0; i < n; i++) {
-        if (values[i] < threshold) negCount++;
-    }
-    const probNegative = negCount / n;
-
-    return {
-        minimum,
-        maximum,
-        mean,
-        median,
-        mode,
-        stdDev,
-        variance,
-        skewness,
-        kurtosis,
-        percentiles,
-        confidenceInterval,
-        probNegative,
-        count: n,
-    };
+    return { median: percentiles.p50, percentiles, confidenceInterval };
 }
 
 /** Linear interpolation percentile on a sorted array */
-export function percentile(sorted: number[], p: number): number {
+export function percentile(sorted: ArrayLike<number>, p: number): number {
     const n = sorted.length;
     if (n === 0) return 0;
     if (n === 1) return sorted[0];
@@ -113,12 +211,10 @@ export function percentile(sorted: number[], p: number): number {
     return sorted[lo] * (1 - frac) + sorted[hi] * frac;
 }
 
-/** Mode approximation — bin the data and find the peak */
-function computeMode(sorted: number[]): number {
-    const n = sorted.length;
-    if (n <= 2) return sorted[0];
-    const range = sorted[n - 1] - sorted[0];
-    if (range === 0) return sorted[0];
+/** Mode approximation — bin the n finite values between min and max and find the peak */
+function computeMode(values: ArrayLike<number>, min: number, max: number, n: number): number {
+    const range = max - min;
+    if (n <= 2 || range === 0) return min;
 
     // Sturges' formula for bin count
     const numBins = Math.max(
@@ -128,8 +224,9 @@ function computeMode(sorted: number[]): number {
     const binWidth = range / numBins;
     const bins = new Uint32Array(numBins);
 
-    for (let i = 0; i < n; i++) {
-        let bin = Math.floor((sorted[i] - sorted[0]) / binWidth);
+    for (let i = 0; i < values.length; i++) {
+        if (!Number.isFinite(values[i])) continue;
+        let bin = Math.floor((values[i] - min) / binWidth);
         if (bin >= numBins) bin = numBins - 1;
         bins[bin]++;
     }
@@ -144,50 +241,51 @@ function computeMode(sorted: number[]): number {
     }
 
     // Return midpoint of the modal bin
-    return sorted[0] + (maxBin + 0.5) * binWidth;
+    return min + (maxBin + 0.5) * binWidth;
 }
 
 /** Create an empty stats object (for 0-length data) */
-function emptyStats(): OutputStatistics {
+function emptyStats(errorCount: number): OutputStatistics {
     return {
-        minimum: 0,
-        maximum: 0,
-        mean: 0,
+        ...emptyRunning(),
         median: 0,
         mode: 0,
-        stdDev: 0,
-        variance: 0,
-        skewness: 0,
-        kurtosis: 0,
         percentiles: {
             p1: 0, p5: 0, p10: 0, p25: 0, p50: 0,
             p75: 0, p90: 0, p95: 0, p99: 0,
         },
         confidenceInterval: [0, 0],
+        errorCount,
+    };
+}
+
+function emptyRunning(): RunningStatistics {
+    return {
+        minimum: 0,
+        maximum: 0,
+        mean: 0,
+        stdDev: 0,
+        variance: 0,
+        skewness: 0,
+        kurtosis: 0,
         probNegative: 0,
         count: 0,
     };
 }
 
 /** Compute histogram bin data for charting */
-export interface HistogramBin {
-    x0: number;
-    x1: number;
-    count: number;
-    frequency: number;   // count / total
-    density: number;     // frequency / binWidth
-}
-
 export function computeHistogram(
-    values: number[],
+    values: ArrayLike<number>,
     numBins?: number
 ): HistogramBin[] {
-    const n = values.length;
+    const { n, min, max } = finiteRange(values);
+    return histogramOf(values, min, max, n, numBins);
+}
+
+/** Histogram of the n finite values, which lie between min and max */
+function histogramOf(values: ArrayLike<number>, min: number, max: number, n: number, numBins?: number): HistogramBin[] {
     if (n === 0) return [];
 
-    const sorted = [...values].sort((a, b) => a - b);
-    const min = sorted[0];
-    const max = sorted[n - 1];
     const range = max - min;
 
     if (range === 0) {
@@ -210,8 +308,9 @@ export function computeHistogram(
         });
     }
 
-    for (let i = 0; i < n; i++) {
-        let idx = Math.floor((sorted[i] - min) / binWidth);
+    for (let i = 0; i < values.length; i++) {
+        if (!Number.isFinite(values[i])) continue;
+        let idx = Math.floor((values[i] - min) / binWidth);
         if (idx >= bins) idx = bins - 1;
         result[idx].count++;
     }
@@ -225,18 +324,19 @@ export function computeHistogram(
 }
 
 /** Compute cumulative distribution data for CDF chart */
-export interface CDFPoint {
-    x: number;
-    cdf: number;  // proportion ≤ x
+export function computeCDF(values: ArrayLike<number>, numPoints = 200): CDFPoint[] {
+    const { n, min, max } = finiteRange(values);
+    return cdfOf(values, min, max, n, numPoints);
 }
 
-export function computeCDF(values: number[], numPoints = 200): CDFPoint[] {
-    const n = values.length;
+/**
+ * Share of the n finite values at or below evenly spaced points
+ * from min to max — each value is counted at the first point it
+ * doesn't exceed, then the counts are summed up
+ */
+function cdfOf(values: ArrayLike<number>, min: number, max: number, n: number, numPoints: number): CDFPoint[] {
     if (n === 0) return [];
 
-    const sorted = [...values].sort((a, b) => a - b);
-    const min = sorted[0];
-    const max = sorted[n - 1];
     const range = max - min;
 
     if (range === 0) {
@@ -246,16 +346,20 @@ export function computeCDF(values: number[], numPoints = 200): CDFPoint[] {
         ];
     }
 
-    const points: CDFPoint[] = [];
     const step = range / (numPoints - 1);
+    const counts = new Uint32Array(numPoints);
+    for (let i = 0; i < values.length; i++) {
+        if (!Number.isFinite(values[i])) continue;
+        let idx = Math.ceil((values[i] - min) / step);
+        if (idx >= numPoints) idx = numPoints - 1;
+        counts[idx]++;
+    }
 
-    let sortedIdx = 0;
+    const points: CDFPoint[] = [];
+    let below = 0;
     for (let i = 0; i < numPoints; i++) {
-        const x = min + i * step;
-        while (sortedIdx < n && sorted[sortedIdx] <= x) {
-            sortedIdx++;
-        }
-        points.push({ x, cdf: sortedIdx / n });
+        below += counts[i];
+        points.push({ x: min + i * step, cdf: below / n });
     }
 
     return points;
@@ -0,0 +1,15 @@
+/* ---------------------------------------------------------------
+ * statsWorker.ts — Web Worker entry: post-processes a run off the
+ *                  task pane's UI thread (see statsWorkerClient.ts)
+ * --------------------------------------------------------------- */
+
+import { PostProcessRequest, columnBuffers, postProcess } from "./postprocess";
+
+self.onmessage = (event: MessageEvent<PostProcessRequest>) => {
+    try {
+        const result = postProcess(event.data);
+        self.postMessage({ result }, { transfer: columnBuffers(result.outputValues, result.inputSamples) });
+    } catch (error) {
+        self.postMessage({ error: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,40 @@
+/* ---------------------------------------------------------------
+ * statsWorkerClient.ts — Post-process a run in a Web Worker
+ *
+ * Kept apart from postprocess.ts because bundling the worker needs
+ * `import.meta`, which the CommonJS command-line build cannot take.
+ * --------------------------------------------------------------- */
+
+import { PostProcessResult, PostProcessor, columnBuffers, postProcessInline } from "./postprocess";
+
+type WorkerReply = { result: PostProcessResult } | { error: string };
+
+/**
+ * Post-process in a fresh worker, transferring the columns there and
+ * back.  Falls back to the calling thread where workers are missing.
+ */
+export const postProcessInWorker: PostProcessor = (request) => {
+    if (typeof Worker === "undefined") return postProcessInline(request);
+
+    let worker: Worker;
+    try {
+        worker = new Worker(new URL("./statsWorker.ts", import.meta.url));
+    } catch (error) {
+        console.warn("[MC] Could not start the statistics worker; computing in the task pane:", error);
+        return postProcessInline(request);
+    }
+
+    return new Promise<PostProcessResult>((resolve, reject) => {
+        worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+            worker.terminate();
+            const reply = event.data;
+            if ("error" in reply) reject(new Error(`Computing statistics failed: ${reply.error}`));
+            else resolve(reply.result);
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(`Computing statistics failed: ${event.message || "the worker stopped"}`));
+        };
+        worker.postMessage(request, columnBuffers(request.outputValues, request.inputSamples));
+    });
+};
@@ -0,0 +1,131 @@
+/* ---------------------------------------------------------------
+ * streaming.ts — Single-pass estimators that never hold the data
+ *
+ * Moments use Welford's update extended to the third and fourth
+ * central moments (Terriberry), so mean, variance, skewness and
+ * kurtosis come from one pass without cancellation.
+ *
+ * Quantiles use the P² algorithm (Jain & Chlamtac, 1985): five
+ * markers whose heights are nudged along a parabola as values
+ * arrive.  Memory is constant; accuracy is usually within a small
+ * fraction of the spread for smooth distributions.
+ * --------------------------------------------------------------- */
+
+export interface MomentAccumulator {
+    add(x: number): void;
+    readonly count: number;
+    readonly mean: number;
+    /** Population variance */
+    readonly variance: number;
+    readonly skewness: number;
+    /** Excess kurtosis */
+    readonly kurtosis: number;
+}
+
+export interface QuantileEstimator {
+    add(x: number): void;
+    /** Current estimate (0 before any value) */
+    value(): number;
+}
+
+/** Running count, mean and central moments up to the fourth */
+export function createMoments(): MomentAccumulator {
+    let n = 0;
+    let mean = 0;
+    let m2 = 0;
+    let m3 = 0;
+    let m4 = 0;
+
+    return {
+        add(x) {
+            const n1 = n;
+            n++;
+            const delta = x - mean;
+            const deltaN = delta / n;
+            const deltaN2 = deltaN * deltaN;
+            const term = delta * deltaN * n1;
+            mean += deltaN;
+            m4 += term * deltaN2 * (n * n - 3 * n + 3) + 6 * deltaN2 * m2 - 4 * deltaN * m3;
+            m3 += term * deltaN * (n - 2) - 3 * deltaN * m2;
+            m2 += term;
+        },
+        get count() {
+            return n;
+        },
+        get mean() {
+            return mean;
+        },
+        get variance() {
+            return n > 0 ? m2 / n : 0;
+        },
+        get skewness() {
+            return m2 > 0 ? (Math.sqrt(n) * m3) / Math.pow(m2, 1.5) : 0;
+        },
+        get kurtosis() {
+            return m2 > 0 ? (n * m4) / (m2 * m2) - 3 : 0;
+        },
+    };
+}
+
+/** P² estimate of the p-quantile, 0 < p < 1 */
+export function createP2Quantile(p: number): QuantileEstimator {
+    /** Marker heights, actual positions and desired positions */
+    const q: number[] = [];
+    const pos = [1, 2, 3, 4, 5];
+    const desired = [1, 1 + 2 * p, 1 + 4 * p, 3 + 2 * p, 5];
+    const step = [0, p / 2, p, (1 + p) / 2, 1];
+
+    const parabolic = (i: number, d: number): number =>
+        q[i] +
+        (d / (pos[i + 1] - pos[i - 1])) *
+            ((pos[i] - pos[i - 1] + d) * (q[i + 1] - q[i]) / (pos[i + 1] - pos[i]) +
+                (pos[i + 1] - pos[i] - d) * (q[i] - q[i - 1]) / (pos[i] - pos[i - 1]));
+
+    const linear = (i: number, d: number): number =>
+        q[i] + (d * (q[i + d] - q[i])) / (pos[i + d] - pos[i]);
+
+    return {
+        add(x) {
+            // The first five values seed the markers
+            if (q.length < 5) {
+                q.push(x);
+                q.sort((a, b) => a - b);
+                return;
+            }
+
+            let k: number;
+            if (x < q[0]) {
+                q[0] = x;
+                k = 0;
+            } else if (x >= q[4]) {
+                q[4] = x;
+                k = 3;
+            } else {
+                k = 0;
+                while (x >= q[k + 1]) k++;
+            }
+            for (let i = k + 1; i < 5; i++) pos[i]++;
+            for (let i = 0; i < 5; i++) desired[i] += step[i];
+
+            // Move the middle markers towards where they should be
+            for (let i = 1; i <= 3; i++) {
+                const off = desired[i] - pos[i];
+                if ((off >= 1 && pos[i + 1] - pos[i] > 1) || (off <= -1 && pos[i - 1] - pos[i] < -1)) {
+                    const d = off > 0 ? 1 : -1;
+                    const h = parabolic(i, d);
+                    q[i] = q[i - 1] < h && h < q[i + 1] ? h : linear(i, d);
+                    pos[i] += d;
+                }
+            }
+        },
+        value() {
+            if (q.length === 5) return q[2];
+            if (q.length === 0) return 0;
+            // Too few values for the markers — read the small sample directly
+            const idx = p * (q.length - 1);
+            const lo = Math.floor(idx);
+            const hi = Math.ceil(idx);
+            return q[lo] + (q[hi] - q[lo]) * (idx - lo);
+        },
+    };
+}
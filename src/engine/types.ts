@@ -2,14 +2,102 @@
  * types.ts — Shared type definitions for the Monte Carlo engine
  * --------------------------------------------------------------- */
 
-/** Supported distribution types */
-export type DistributionType =
-    | "normal"
-    | "triangular"
-    | "pert"
-    | "uniform"
-    | "lognormal"
-    | "discrete";
+/**
+ * Distribution type key, e.g. "normal" or "pert".  Valid keys are
+ * whatever is registered in the distribution registry (registry.ts).
+ */
+export type DistributionType = string;
+
+/** Distribution parameters, keyed by parameter name */
+export type DistributionParams = Record<string, number | number[]>;
+
+/** One parameter of a distribution's custom function */
+export interface ParamSpec {
+    /** Parameter key, also used as the Excel argument name */
+    name: string;
+    /** Argument description shown in Excel */
+    description: string;
+    /** "number" = scalar argument, "range" = Excel range flattened to an array */
+    kind: "number" | "range";
+}
+
+/** A pseudo-random number stream owned by one input (see rng.ts) */
+export interface RandomStream {
+    /** Uniform on [0, 1) */
+    next(): number;
+    /** Standard normal */
+    normal(): number;
+}
+
+/**
+ * A distribution family.  Everything the engine and the UI need to
+ * know about a distribution is declared here, in one place.
+ */
+export interface DistributionDef {
+    /** Type key stored on inputs, e.g. "normal" */
+    type: DistributionType;
+    /** Custom function ID — exposed as MC.<functionId> */
+    functionId: string;
+    /** Parameter schema, in argument order */
+    params: ParamSpec[];
+    /** True for distributions over a countable set of outcomes */
+    discrete?: boolean;
+    /** Return an error message for invalid params, or null when valid */
+    validate(p: DistributionParams): string | null;
+    /** Optional canonicalisation applied after validation (e.g. normalising probabilities) */
+    prepare?(p: DistributionParams): DistributionParams;
+    /** Draw one random value from the given stream */
+    sample(p: DistributionParams, rng: RandomStream): number;
+    /** Expected value — returned by the custom function when not simulating */
+    mean(p: DistributionParams): number;
+    /** Density (continuous) or probability mass (discrete) at x */
+    pdf(p: DistributionParams, x: number): number;
+    /** P(X ≤ x) */
+    cdf(p: DistributionParams, x: number): number;
+    /**
+     * Inverse CDF: smallest x with P(X ≤ x) ≥ u.  Optional — families
+     * without one fall back to numeric inversion of cdf().
+     */
+    quantile?(p: DistributionParams, u: number): number;
+    /** x-range to plot in previews */
+    range(p: DistributionParams): [number, number];
+    /** Possible outcomes (discrete distributions only) */
+    support?(p: DistributionParams): number[];
+    /** Short parameter annotation for the inputs list */
+    describe(p: DistributionParams): string;
+}
+
+/**
+ * An alternative way of entering a distribution, e.g. lognormal by
+ * its arithmetic mean and stdev, or normal by its P10 and P90.
+ * Resolves to the native parameters of the target family, so the
+ * engine only ever sees native types.
+ */
+export interface ParameterisationDef {
+    /** Custom function ID — exposed as MC.<functionId> */
+    functionId: string;
+    /** Type key of the native family the parameters resolve to */
+    target: DistributionType;
+    /** Parameter schema, in argument order */
+    params: ParamSpec[];
+    /** Return an error message for invalid params, or null when valid */
+    validate(p: DistributionParams): string | null;
+    /** Native parameters, or an error message if none match */
+    resolve(p: DistributionParams): DistributionParams | string;
+    /** Short annotation of the entered values for the inputs list */
+    describe(p: DistributionParams): string;
+}
+
+/**
+ * Optional truncation and shift applied on top of a distribution.
+ * Bounds apply to the shifted value: X' = X + shift, restricted to
+ * [lower, upper].
+ */
+export interface DistributionModifiers {
+    lower?: number;
+    upper?: number;
+    shift?: number;
+}
 
 /** A registered distribution input */
 export interface DistributionInput {
@@ -19,9 +107,18 @@ export interface DistributionInput {
     /** Distribution type */
     type: DistributionType;
     /** Distribution parameters */
-    params: Record<string, number | number[]>;
+    params: DistributionParams;
+    /** Optional truncation bounds and shift */
+    modifiers?: DistributionModifiers;
+    /** Values as entered, when an alternative parameterisation was used */
+    entered?: {
+        functionId: string;
+        params: DistributionParams;
+    };
     /** User-given name */
     name: string;
+    /** Validation message when the arguments are invalid; the simulator refuses to run */
+    error?: string;
     /** The formula string to restore after simulation */
     originalFormula?: string;
 }
@@ -33,29 +130,170 @@ export interface SimulationOutput {
     cellAddress: string;
     /** User-given name */
     name: string;
+    /** Set when the output is one period of a range output */
+    group?: OutputGroupRef;
+}
+
+/**
+ * Where an output sits within a range output — MC.OUTPUT over
+ * several cells, e.g. a cash flow per year, registers one output
+ * per cell.
+ */
+export interface OutputGroupRef {
+    /** ID shared by every period of the range */
+    id: string;
+    /** Name given to the whole range */
+    name: string;
+    /** 0-based position in the range (row by row) */
+    index: number;
 }
 
+/** Rank correlation matrix between named inputs (MC.CORRMAT) */
+export interface CorrelationMatrix {
+    /** Unique ID (derived from the cell address) */
+    id: string;
+    /** Cell holding the MC.CORRMAT formula */
+    cellAddress: string;
+    /** Input names, in matrix order */
+    names: string[];
+    /** Complete symmetric matrix with unit diagonal */
+    matrix: number[][];
+}
+
+/** How input samples are drawn */
+export type SamplingMethod = "montecarlo" | "lhs";
+
 /** Configuration for a simulation run */
 export interface SimulationConfig {
+    /** What ends the run; only "iterations" uses `iterations` */
+    runMode: RunMode;
     /** Number of iterations */
     iterations: number;
+    /** Running time allowed in "time" mode, in seconds (time spent paused does not count) */
+    timeLimitSeconds: number;
     /** Random seed (0 = random) */
     seed: number;
+    /** Plain pseudo-random draws or Latin Hypercube stratification */
+    samplingMethod: SamplingMethod;
+    /** Iterations queued per Excel sync (1 = sync every iteration) */
+    batchSize: number;
     /** Confidence level for intervals (e.g. 0.90) */
     confidenceLevel: number;
     /** Threshold for P(X < threshold) metric (default: 0) */
     probabilityThreshold: number;
+    /** What to do when an output shows an error or text instead of a number */
+    errorPolicy: ErrorPolicy;
+    /**
+     * Stop once the outputs' statistics settle; `iterations` is then
+     * the most the run will do.  Absent = always run every iteration.
+     */
+    convergence?: ConvergenceConfig;
 }
 
+/**
+ * What ends a run:
+ *   iterations — the configured number of iterations
+ *   time       — the time limit
+ *   manual     — stopSimulation(), e.g. the Stop button
+ * Time and manual runs also end at MAX_ITERATIONS.
+ */
+export type RunMode = "iterations" | "time" | "manual";
+
+/**
+ * Handling of iterations whose outputs fail:
+ *   skip — drop the whole iteration from the results
+ *   nan  — keep it, with NaN for the failed outputs (left out of their statistics)
+ *   stop — end the run with an error
+ */
+export type ErrorPolicy = "skip" | "nan" | "stop";
+
+/** An output's value in one iteration: a number, or the error or text it showed */
+export type OutputValue = number | string;
+
+/** An iteration in which at least one output failed */
+export interface IterationFailure {
+    /** Iteration number, from 1 */
+    iteration: number;
+    /** Input samples of the iteration, in inputNames order */
+    inputs: number[];
+    /** The failed outputs and what each showed */
+    errors: { outputId: string; value: string }[];
+}
+
+/** When a run counts as converged (convergence mode) */
+export interface ConvergenceConfig {
+    /**
+     * Largest change allowed over the window, relative to the
+     * statistic's size or the output's std dev, whichever is larger
+     * (e.g. 0.01 = 1%)
+     */
+    tolerance: number;
+    /** Iterations over which every tracked statistic must stay within tolerance */
+    window: number;
+    /** Percentiles tracked besides mean and std dev, as fractions (e.g. 0.05) */
+    percentiles: number[];
+}
+
+/** How the tracked statistics of one output moved during the run */
+export interface ConvergenceTrace {
+    outputId: string;
+    /** Iteration count at each checkpoint */
+    iterations: number[];
+    /** Per statistic (ConvergenceResults.statistics order), its value at each checkpoint */
+    values: number[][];
+}
+
+/** Outcome of convergence mode */
+export interface ConvergenceResults {
+    /** Whether every tracked statistic settled before the iteration limit */
+    converged: boolean;
+    /** Iteration at which the run stopped because it converged, or null */
+    iteration: number | null;
+    /** Names of the tracked statistics, e.g. "Mean", "Std Dev", "P5" */
+    statistics: string[];
+    traces: ConvergenceTrace[];
+}
+
+/** How iterations are computed: the JS model evaluator, or Excel recalculation */
+export type EvaluationMode = "javascript" | "excel";
+
 /** Results for a single output across all iterations */
 export interface OutputResults {
     outputId: string;
     name: string;
     cellAddress: string;
-    /** Raw iteration values */
-    values: number[];
+    /** Set when the output is one period of a range output */
+    group?: OutputGroupRef;
+    /** Value in each kept iteration (NaN where it failed) */
+    values: Float64Array;
     /** Computed statistics */
     stats: OutputStatistics;
+    /** Histogram bins, binned once when the results are built */
+    histogram: HistogramBin[];
+    /** Points on the cumulative distribution, for charting */
+    cdf: CDFPoint[];
+}
+
+/** One histogram bar */
+export interface HistogramBin {
+    x0: number;
+    x1: number;
+    count: number;
+    frequency: number;   // count / total
+    density: number;     // frequency / binWidth
+}
+
+/** One point of an empirical CDF */
+export interface CDFPoint {
+    x: number;
+    cdf: number;  // proportion ≤ x
+}
+
+/** The periods of one range output, in range order */
+export interface OutputGroupResults {
+    id: string;
+    name: string;
+    periods: OutputResults[];
 }
 
 /** Full statistics for one output */
@@ -87,6 +325,8 @@ export interface OutputStatistics {
     probNegative: number;
     /** Count of iterations */
     count: number;
+    /** Iterations in which the output showed an error or text instead of a number */
+    errorCount: number;
 }
 
 /** Sensitivity result for tornado chart */
@@ -103,11 +343,29 @@ export interface SensitivityResult {
 export interface SimulationResults {
     config: SimulationConfig;
     outputs: OutputResults[];
+    /** Range outputs; their periods are also listed in `outputs` */
+    groups: OutputGroupResults[];
     sensitivity: Map<string, SensitivityResult[]>;
+    /** Iterations in the results — fewer than config.iterations after a stop, convergence or skipped failures */
+    iterations: number;
+    /** Input names, in inputSamples column order */
+    inputNames: string[];
+    /** Iterations with failed outputs (the first MAX_RECORDED_FAILURES of them) */
+    failures: IterationFailure[];
+    /** Number of iterations with failed outputs, including any not recorded */
+    failureCount: number;
+    /** Seed the run actually used — drawn fresh when config.seed is 0 */
+    seed: number;
+    /** Whether iterations were computed in JavaScript or by Excel */
+    evaluation: EvaluationMode;
     /** Elapsed time in ms */
     elapsedMs: number;
-    /** Matrix of input samples: rows=iterations, cols=inputs */
-    inputSamples: number[][];
+    /** Input samples, one column per input (inputNames order), one entry per kept iteration */
+    inputSamples: Float64Array[];
+    /** Non-fatal problems found while setting up or during the run */
+    warnings: string[];
+    /** Set when the run used convergence mode */
+    convergence?: ConvergenceResults;
 }
 
 /** Simulation status */
@@ -115,6 +373,7 @@ export type SimulationStatus =
     | "idle"
     | "running"
     | "paused"
+    | "computing"   // iterations done; statistics & sensitivity under way
     | "completed"
     | "error"
     | "cancelled";
@@ -127,4 +386,6 @@ export interface SimulationProgress {
     iterationsPerSecond: number;
     elapsedMs: number;
     estimatedRemainingMs: number;
+    /** Results of the iterations so far, while paused */
+    interim?: SimulationResults;
 }
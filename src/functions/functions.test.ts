@@ -0,0 +1,91 @@
+/* ---------------------------------------------------------------
+ * functions.test.ts — MC.INV, MC.PDF and MC.CDF
+ *
+ * Registers the custom functions against a stand-in for Excel's
+ * CustomFunctions runtime and calls them the way Excel does: the
+ * repeating argument holds the parameters, then the optional lower
+ * bound, upper bound and shift.  Bad arguments must raise #VALUE!
+ * or #NUM! as documented.
+ * --------------------------------------------------------------- */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { initCustomFunctions } from "./functions";
+
+type CellFunction = (type: unknown, x: unknown, values: unknown[]) => number;
+
+/** The functions Excel would have been given, by id */
+const registered = new Map<string, CellFunction>();
+
+class FakeError extends Error {
+    constructor(public code: string, message: string) {
+        super(message);
+    }
+}
+
+(globalThis as unknown as { CustomFunctions: unknown }).CustomFunctions = {
+    Error: FakeError,
+    ErrorCode: { invalidValue: "#VALUE!", invalidNumber: "#NUM!" },
+    associate: (id: string, fn: CellFunction) => registered.set(id, fn),
+};
+
+// Registration logging would drown the test report
+console.log = () => undefined;
+initCustomFunctions();
+
+const call = (id: string, type: unknown, x: unknown, ...values: unknown[]) => registered.get(id)!(type, x, values);
+
+/** Assert that a call raises the given Excel error with a message matching `message` */
+function raises(fn: () => unknown, code: string, message: RegExp) {
+    assert.throws(fn, (e: unknown) => {
+        assert.ok(e instanceof FakeError, String(e));
+        assert.equal(e.code, code);
+        assert.match(e.message, message);
+        return true;
+    });
+}
+
+const close = (actual: number, expected: number, label: string) =>
+    assert.ok(Math.abs(actual - expected) < 1e-9, `${label}: ${actual}, expected ${expected}`);
+
+test("every function is registered", () => {
+    for (const id of ["INV", "PDF", "CDF", "NORMAL", "PERTALT", "CORRMAT", "OUTPUT", "SIMID"]) {
+        assert.ok(registered.has(id), id);
+    }
+});
+
+test("values match the distribution", () => {
+    close(call("INV", "normal", 0.975, 0, 1), 1.959963984540054, "INV normal");
+    close(call("CDF", "Beta", 0.5, 2, 3), 11 / 16, "CDF beta");
+    close(call("PDF", "POISSON", 2, 2), 2 * Math.exp(-2), "PDF poisson");
+    close(call("CDF", "binomial", 4, 10, 0.5), 386 / 1024, "CDF binomial");
+    // Ranges arrive as 2-D arrays
+    assert.equal(call("INV", "discrete", 0.25, [[1], [2], [3]], [[0.2], [0.5], [0.3]]), 2);
+    // Alternative parameterisations are looked up by function id
+    close(call("INV", "normalalt", 0.9, 10, 20), 20, "INV NORMALALT");
+});
+
+test("bounds and shift are applied", () => {
+    // Standard normal truncated to [0, ∞): the half-normal
+    close(call("CDF", "normal", 0.6744897501960817, 0, 1, 0), 0.5, "CDF truncated");
+    close(call("INV", "normal", 0.5, 0, 1, 0), 0.6744897501960817, "INV truncated");
+    assert.equal(call("PDF", "normal", -1, 0, 1, 0), 0);
+    // Blank optional arguments are skipped
+    close(call("INV", "uniform", 0.5, 0, 1, null, null, 10), 10.5, "INV shifted");
+});
+
+test("arguments of the wrong type are #VALUE!", () => {
+    raises(() => call("INV", "nosuch", 0.5, 0, 1), "#VALUE!", /MC\.INV: unknown distribution "nosuch"/);
+    raises(() => call("CDF", "normal", 0, "abc", 1), "#VALUE!", /MC\.CDF: mean must be a number/);
+    raises(() => call("PDF", "normal", 0, 0), "#VALUE!", /stdev must be a number/);
+    raises(() => call("CDF", "normal", 0, 0, 1, "low"), "#VALUE!", /lower must be a number/);
+});
+
+test("numbers out of range are #NUM!", () => {
+    raises(() => call("INV", "normal", 0, 0, 1), "#NUM!", /MC\.INV: probability must be between 0 and 1/);
+    raises(() => call("INV", "normal", 1, 0, 1), "#NUM!", /probability must be between 0 and 1/);
+    raises(() => call("PDF", "normal", 0, 0, -1), "#NUM!", /MC\.PDF: stdev must be greater than 0/);
+    raises(() => call("CDF", "binomial", 1, 2.5, 0.5), "#NUM!", /n must be a whole number/);
+    raises(() => call("CDF", "normal", 0, 0, 1, 2, 1), "#NUM!", /lower/);
+    raises(() => call("INV", "pertalt", 0.5, 10, 30, 20), "#NUM!", /no PERT has this mode/);
+});
@@ -6,32 +6,56 @@
  * the static expected value (when not simulating) or a sampled
  * random value (during simulation).
  *
- * Custom function JSDoc tags are used by custom-functions-metadata
- * to generate functions.json automatically.  Since we're doing
- * this manually, we just define and associate them.
+ * Invalid arguments raise #VALUE! (wrong type) or #NUM! (out of
+ * range) with a descriptive message.
+ *
+ * Distribution functions are generated from the distribution
+ * registry.  Custom function JSDoc tags are used by
+ * custom-functions-metadata to generate functions.json
+ * automatically; since we're doing this manually, functions.json
+ * must list an entry for every registry functionId.
  * --------------------------------------------------------------- */
 
 /* global CustomFunctions */
 
-import { registerInput, registerOutput, isSimulating } from "../shared/storage";
 import {
-    sampleNormal,
-    staticNormal,
-    sampleUniform,
-    staticUniform,
-    sampleTriangular,
-    staticTriangular,
-    samplePERT,
-    staticPERT,
-    sampleLognormal,
-    staticLognormal,
-} from "../engine/distributions";
-import { DistributionType } from "../engine/types";
+    registerInput,
+    registerOutput,
+    removeOutputGroup,
+    registerCorrelation,
+    isSimulating,
+} from "../shared/storage";
+import { getDistribution, listDistributions, listParameterisations } from "../engine/registry";
+import {
+    hasModifiers,
+    validateModifiers,
+    sampleModified,
+    modifiedMean,
+    modifiedQuantile,
+    modifiedPdf,
+    modifiedCdf,
+} from "../engine/modifiers";
+import {
+    DistributionDef,
+    DistributionInput,
+    DistributionModifiers,
+    DistributionParams,
+    DistributionType,
+    ParamSpec,
+    ParameterisationDef,
+} from "../engine/types";
+import { completeCorrelationMatrix } from "../engine/correlation";
+import { mathRandomStream } from "../engine/rng";
+import { formatAddress, parseRangeAddress, splitSheet } from "../engine/formula";
+import metadata from "./functions.json";
 
 // ── Helper: stable ID from name or params ───────────────────────
 
 let _anonCounter = 0;
 
+/** Draws made by the cells themselves; runs use per-input streams */
+const _cellStream = mathRandomStream();
+
 function stableId(type: string, name: string | undefined, address: string): string {
     if (name) return `${type}:${name}`;
     if (address) return `${type}:${address}`;
@@ -39,81 +63,295 @@ function stableId(type: string, name: string | undefined, address: string): stri
 }
 
 function registerDist(
-    type: DistributionType,
-    params: Record<string, number | number[]>,
-    name: string | undefined,
-    cellAddress: string
+    input: Omit<DistributionInput, "id" | "name"> & { name?: string }
 ): void {
+    const { type, name, cellAddress, modifiers } = input;
     console.log(`[MC] RegisterDist: type=${type}, name=${name}, rawAddress=${cellAddress}`);
     const id = stableId(type, name, cellAddress);
     registerInput({
+        ...input,
         id,
-        cellAddress,
-        type,
-        params,
+        modifiers: hasModifiers(modifiers) ? modifiers : undefined,
         name: name || id,
     });
 }
 
-// ── MC.NORMAL ───────────────────────────────────────────────────
+/** Raise an Excel error value with a descriptive message */
+function fail(code: CustomFunctions.ErrorCode, fn: string, message: string): never {
+    throw new CustomFunctions.Error(code, `MC.${fn}: ${message}`);
+}
 
-function mcNormal(mean: number, stdev: number, name?: string): number {
-    const invocation = arguments[arguments.length - 1];
-    registerDist("normal", { mean, stdev }, name, invocation.address || "");
-    if (isSimulating()) return sampleNormal(mean, stdev);
-    return staticNormal(mean, stdev);
+/** Flatten a 2-D Excel range into a 1-D array of numbers */
+function flattenRange(range: unknown): number[] {
+    if (!Array.isArray(range)) return [Number(range)];
+    const out: number[] = [];
+    for (const row of range) {
+        for (const cell of row as unknown[]) {
+            out.push(typeof cell === "number" ? cell : parseFloat(String(cell)));
+        }
+    }
+    return out;
 }
 
-// ── MC.UNIFORM ──────────────────────────────────────────────────
+/** First cell of a range, or the value itself when it is a scalar */
+function firstCell(value: unknown): unknown {
+    while (Array.isArray(value)) value = value[0];
+    return value;
+}
 
-function mcUniform(min: number, max: number, name?: string): number {
-    const invocation = arguments[arguments.length - 1];
-    registerDist("uniform", { min, max }, name, invocation.address || "");
-    if (isSimulating()) return sampleUniform(min, max);
-    return staticUniform(min, max);
+/** Read an optional trailing argument; Excel passes null when omitted */
+function optionalArg<T>(args: unknown[], index: number): T | undefined {
+    const v = firstCell(args[index]);
+    return v === null || v === undefined || v === "" ? undefined : (v as T);
 }
 
-// ── MC.TRIANGULAR ───────────────────────────────────────────────
+/** Read a distribution's parameters from the leading arguments, per its schema */
+function readParams(specs: ParamSpec[], values: unknown[]): DistributionParams {
+    const params: DistributionParams = {};
+    specs.forEach((spec, i) => {
+        params[spec.name] = spec.kind === "range" ? flattenRange(values[i]) : Number(firstCell(values[i]));
+    });
+    return params;
+}
 
-function mcTriangular(min: number, mode: number, max: number, name?: string): number {
-    const invocation = arguments[arguments.length - 1];
-    registerDist("triangular", { min, mode, max }, name, invocation.address || "");
-    if (isSimulating()) return sampleTriangular(min, mode, max);
-    return staticTriangular(min, mode, max);
+/** A distribution family, optionally entered through an alternative parameterisation */
+interface EntryPoint {
+    def: DistributionDef;
+    alt?: ParameterisationDef;
 }
 
-// ── MC.PERT ─────────────────────────────────────────────────────
+/** Native parameters, plus the values as entered when an alternative was used */
+interface ParsedParams {
+    params: DistributionParams;
+    entered?: DistributionParams;
+    /** Error value and message when the arguments are invalid */
+    problem?: [CustomFunctions.ErrorCode, string];
+}
 
-function mcPERT(min: number, mode: number, max: number, name?: string): number {
-    const invocation = arguments[arguments.length - 1];
-    registerDist("pert", { min, mode, max }, name, invocation.address || "");
-    if (isSimulating()) return samplePERT(min, mode, max);
-    return staticPERT(min, mode, max);
+/**
+ * Read, resolve and validate the parameter arguments of an entry
+ * point.  Arguments of the wrong type are #VALUE!; numbers outside a
+ * parameter's domain, or inconsistent with each other, are #NUM!.
+ */
+function parseParams(
+    entry: EntryPoint,
+    values: unknown[],
+    modifiers: DistributionModifiers
+): ParsedParams {
+    const { def, alt } = entry;
+    const schema = alt ?? def;
+    const entered = readParams(schema.params, values);
+
+    for (const spec of schema.params) {
+        if (spec.kind === "number" && !isFinite(entered[spec.name] as number)) {
+            return { params: entered, problem: [CustomFunctions.ErrorCode.invalidValue, `${spec.name} must be a number`] };
+        }
+    }
+    for (const key of ["lower", "upper", "shift"] as const) {
+        if (modifiers[key] !== undefined && typeof modifiers[key] !== "number") {
+            return { params: entered, problem: [CustomFunctions.ErrorCode.invalidValue, `${key} must be a number`] };
+        }
+    }
+
+    let params = entered;
+    let problem = schema.validate(entered);
+    if (!problem && alt) {
+        const resolved = alt.resolve(entered);
+        if (typeof resolved === "string") problem = resolved;
+        else {
+            params = resolved;
+            problem = def.validate(params);
+        }
+    }
+    if (!problem && def.prepare) params = def.prepare(params);
+    problem = problem ?? validateModifiers(def, params, modifiers);
+    return {
+        params,
+        entered: alt ? entered : undefined,
+        problem: problem ? [CustomFunctions.ErrorCode.invalidNumber, problem] : undefined,
+    };
 }
 
-// ── MC.LOGNORMAL ────────────────────────────────────────────────
+// ── MC.<DISTRIBUTION> ───────────────────────────────────────────
+// One custom function per registry entry and per alternative
+// parameterisation.  Arguments follow the entry's parameter schema,
+// then optional name, lower bound, upper bound and shift.
 
-function mcLognormal(mu: number, sigma: number, name?: string): number {
+function makeDistributionFunction(entry: EntryPoint): (...args: unknown[]) => number {
+    const { def, alt } = entry;
+    const functionId = alt?.functionId ?? def.functionId;
+    return function (...args: unknown[]): number {
+        const invocation = args[args.length - 1] as { address?: string };
+        const values = args.slice(0, -1);
+        const n = (alt ?? def).params.length;
+
+        const name = optionalArg<string>(values, n);
+        const modifiers: DistributionModifiers = {
+            lower: optionalArg<number>(values, n + 1),
+            upper: optionalArg<number>(values, n + 2),
+            shift: optionalArg<number>(values, n + 3),
+        };
+        const { params, entered, problem } = parseParams(entry, values, modifiers);
+        const cellAddress = invocation.address || "";
+
+        // Invalid inputs stay registered, flagged, so the task pane can
+        // list them and the simulator can refuse to run
+        registerDist({
+            type: def.type,
+            params,
+            name,
+            cellAddress,
+            modifiers,
+            entered: entered && { functionId, params: entered },
+            error: problem?.[1],
+        });
+        if (problem) fail(problem[0], functionId, problem[1]);
+
+        if (isSimulating()) return sampleModified(def, params, modifiers, _cellStream);
+        return modifiedMean(def, params, modifiers);
+    };
+}
+
+// ── MC.INV / MC.PDF / MC.CDF ────────────────────────────────────
+// Evaluate a distribution directly in a cell, without registering it
+// as a simulation input.  The repeating argument carries the family's
+// parameters followed by optional lower bound, upper bound and shift,
+// e.g. =MC.INV("PERT", 0.9, 10, 20, 40).
+
+/** Resolve a type name or function id (case-insensitive) to an entry point */
+function lookupDistribution(fn: string, type: string): EntryPoint {
+    const key = String(type ?? "").trim().toLowerCase();
+    const def =
+        getDistribution(key) ?? listDistributions().find((d) => d.functionId.toLowerCase() === key);
+    if (def) return { def };
+    const alt = listParameterisations().find((a) => a.functionId.toLowerCase() === key);
+    const target = alt && getDistribution(alt.target);
+    if (target) return { def: target, alt };
+    fail(CustomFunctions.ErrorCode.invalidValue, fn, `unknown distribution "${type}"`);
+}
+
+/** Parse and validate the repeating parameter list for an entry point */
+function readDistribution(
+    fn: string,
+    entry: EntryPoint,
+    values: unknown[]
+): [DistributionParams, DistributionModifiers] {
+    const n = (entry.alt ?? entry.def).params.length;
+    const modifiers: DistributionModifiers = {
+        lower: optionalArg<number>(values, n),
+        upper: optionalArg<number>(values, n + 1),
+        shift: optionalArg<number>(values, n + 2),
+    };
+    const { params, problem } = parseParams(entry, values, modifiers);
+    if (problem) fail(problem[0], fn, problem[1]);
+    return [params, modifiers];
+}
+
+function mcInv(type: string, p: number, values: unknown[]): number {
+    const entry = lookupDistribution("INV", type);
+    if (!(p > 0 && p < 1)) {
+        fail(CustomFunctions.ErrorCode.invalidNumber, "INV", "probability must be between 0 and 1 (exclusive)");
+    }
+    const [params, modifiers] = readDistribution("INV", entry, values);
+    return modifiedQuantile(entry.def, params, modifiers, p);
+}
+
+function mcPdf(type: string, x: number, values: unknown[]): number {
+    const entry = lookupDistribution("PDF", type);
+    const [params, modifiers] = readDistribution("PDF", entry, values);
+    return modifiedPdf(entry.def, params, modifiers, x);
+}
+
+function mcCdf(type: string, x: number, values: unknown[]): number {
+    const entry = lookupDistribution("CDF", type);
+    const [params, modifiers] = readDistribution("CDF", entry, values);
+    return modifiedCdf(entry.def, params, modifiers, x);
+}
+
+// ── MC.CORRMAT ──────────────────────────────────────────────────
+// Declares a rank correlation matrix between named inputs.  Either
+// triangle may be left blank.
+
+function mcCorrMat(matrix: unknown[][], names: unknown[][]): string {
     const invocation = arguments[arguments.length - 1];
-    registerDist("lognormal", { mu, sigma }, name, invocation.address || "");
-    if (isSimulating()) return sampleLognormal(mu, sigma);
-    return staticLognormal(mu, sigma);
+    const address = invocation.address || "";
+    const raw = matrix.map((row) =>
+        row.map((cell) => {
+            if (cell === null || cell === "") return NaN; // blank half of the matrix
+            const r = Number(cell);
+            if (isNaN(r)) fail(CustomFunctions.ErrorCode.invalidValue, "CORRMAT", "matrix must contain numbers");
+            return r;
+        })
+    );
+    const list = names
+        .reduce<unknown[]>((all, row) => all.concat(row), [])
+        .map((n) => String(n ?? "").trim())
+        .filter((n) => n !== "");
+
+    const completed = completeCorrelationMatrix(raw);
+    if (typeof completed === "string") fail(CustomFunctions.ErrorCode.invalidNumber, "CORRMAT", completed);
+    if (list.length !== completed.length) {
+        fail(
+            CustomFunctions.ErrorCode.invalidValue,
+            "CORRMAT",
+            `expected ${completed.length} input names, got ${list.length}`
+        );
+    }
+    if (new Set(list.map((n) => n.toLowerCase())).size !== list.length) {
+        fail(CustomFunctions.ErrorCode.invalidValue, "CORRMAT", "input names must be unique");
+    }
+
+    console.log(`[MC] mcCorrMat: ${list.length} inputs, rawAddress=${address}`);
+    registerCorrelation({
+        id: stableId("corr", undefined, address),
+        cellAddress: address,
+        names: list,
+        matrix: completed,
+    });
+    return `Correlation: ${list.join(", ")}`;
 }
 
 // ── MC.OUTPUT ───────────────────────────────────────────────────
-// Pass-through that marks a cell as a simulation output.
+// Pass-through that marks a cell as a simulation output.  Given a
+// range (e.g. a cash flow per year) it registers one output per
+// cell, grouped under the name, and returns a label instead.
 
-function mcOutput(value: number, name: string): number {
+function mcOutput(value: unknown[][], name: string): unknown {
     const invocation = arguments[arguments.length - 1];
     const address = invocation.address || "";
     console.log(`[MC] mcOutput: name=${name}, rawAddress=${address}`);
     const id = stableId("output", name, address);
-    registerOutput({
-        id,
-        cellAddress: address,
-        name: name || id,
-    });
-    return value;
+    removeOutputGroup(id);
+
+    if (value.length === 1 && value[0].length === 1) {
+        registerOutput({
+            id,
+            cellAddress: address,
+            name: name || id,
+        });
+        return value[0][0];
+    }
+
+    // ── Range: one output per period ────────────────────────────
+    const range = parseRangeAddress(invocation.parameterAddresses?.[0] || "");
+    if (!range) {
+        fail(CustomFunctions.ErrorCode.invalidValue, "OUTPUT", "value must be a cell or a range of cells");
+    }
+    const [sheet] = splitSheet(address);
+    const label = name || id;
+    let index = 0;
+    for (let row = range.row1; row <= range.row2; row++) {
+        for (let col = range.col1; col <= range.col2; col++) {
+            registerOutput({
+                id: `${id}#${index + 1}`,
+                cellAddress: formatAddress({ sheet: range.sheet ?? sheet, row, col }),
+                name: `${label} [${index + 1}]`,
+                group: { id, name: label, index },
+            });
+            index++;
+        }
+    }
+    return `${label}: ${index} periods`;
 }
 
 // ── MC.SIMID ────────────────────────────────────────────────────
@@ -130,14 +368,33 @@ export function initCustomFunctions(): void {
     console.log("[MC] initCustomFunctions called");
     console.log("[MC] typeof CustomFunctions =", typeof CustomFunctions);
     try {
-        CustomFunctions.associate("NORMAL", mcNormal);
-        CustomFunctions.associate("UNIFORM", mcUniform);
-        CustomFunctions.associate("TRIANGULAR", mcTriangular);
-        CustomFunctions.associate("PERT", mcPERT);
-        CustomFunctions.associate("LOGNORMAL", mcLognormal);
+        const dists = listDistributions();
+        const declared = new Set(metadata.functions.map((f) => f.id));
+        for (const def of dists) {
+            if (!declared.has(def.functionId)) {
+                console.warn(`[MC] MC.${def.functionId} has no entry in functions.json — Excel won't expose it`);
+            }
+            CustomFunctions.associate(def.functionId, makeDistributionFunction({ def }));
+        }
+        const alts = listParameterisations();
+        for (const alt of alts) {
+            const def = getDistribution(alt.target);
+            if (!def) {
+                console.warn(`[MC] MC.${alt.functionId} targets unknown distribution "${alt.target}"`);
+                continue;
+            }
+            if (!declared.has(alt.functionId)) {
+                console.warn(`[MC] MC.${alt.functionId} has no entry in functions.json — Excel won't expose it`);
+            }
+            CustomFunctions.associate(alt.functionId, makeDistributionFunction({ def, alt }));
+        }
+        CustomFunctions.associate("INV", mcInv);
+        CustomFunctions.associate("PDF", mcPdf);
+        CustomFunctions.associate("CDF", mcCdf);
+        CustomFunctions.associate("CORRMAT", mcCorrMat);
         CustomFunctions.associate("OUTPUT", mcOutput);
         CustomFunctions.associate("SIMID", mcSimId);
-        console.log("[MC] ✅ All 7 functions registered successfully");
+        console.log(`[MC] ✅ All ${dists.length + alts.length + 6} functions registered successfully`);
     } catch (e) {
         console.error("[MC] ❌ CustomFunctions.associate failed:", e);
     }
@@ -4,9 +4,19 @@
 
 export const DEFAULT_ITERATIONS = 1000;
 export const MIN_ITERATIONS = 100;
-export const MAX_ITERATIONS = 50000;
+export const MAX_ITERATIONS = 1000000;
+export const DEFAULT_RUN_MODE = "iterations" as const;
+export const DEFAULT_TIME_LIMIT_SECONDS = 30;
 export const DEFAULT_SEED = 0;  // 0 = random
 export const DEFAULT_CONFIDENCE = 0.90;
+export const DEFAULT_SAMPLING_METHOD = "montecarlo" as const;
+export const DEFAULT_BATCH_SIZE = 100;
+export const MAX_BATCH_SIZE = 1000;
+export const DEFAULT_ERROR_POLICY = "skip" as const;
+export const MAX_RECORDED_FAILURES = 1000;
+export const DEFAULT_CONVERGENCE_TOLERANCE = 0.01;  // 1%
+export const DEFAULT_CONVERGENCE_WINDOW = 1000;
+export const DEFAULT_CONVERGENCE_PERCENTILES = [0.05, 0.5, 0.95];
 
 /** Chart colour palette — modern, professional */
 export const COLORS = {
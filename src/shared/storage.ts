@@ -8,11 +8,12 @@
  * workbook's MC functions.
  * --------------------------------------------------------------- */
 
-import { DistributionInput, SimulationOutput } from "../engine/types";
+import { CorrelationMatrix, DistributionInput, SimulationOutput } from "../engine/types";
 
 /** In-memory registry — works in shared runtime mode */
 const _inputs = new Map<string, DistributionInput>();
 const _outputs = new Map<string, SimulationOutput>();
+const _correlations = new Map<string, CorrelationMatrix>();
 let _simulating = false;
 let _currentIteration = 0;
 
@@ -48,15 +49,37 @@ export function getOutputs(): SimulationOutput[] {
     return Array.from(_outputs.values());
 }
 
+/** Drop the periods registered by a range output, before it re-registers */
+export function removeOutputGroup(groupId: string): void {
+    for (const [id, out] of _outputs) {
+        if (out.group?.id === groupId) _outputs.delete(id);
+    }
+}
+
 export function clearOutputs(): void {
     _outputs.clear();
 }
 
+// ── Correlation matrices ────────────────────────────────────────
+
+export function registerCorrelation(matrix: CorrelationMatrix): void {
+    _correlations.set(matrix.id, matrix);
+}
+
+export function getCorrelations(): CorrelationMatrix[] {
+    return Array.from(_correlations.values());
+}
+
+export function clearCorrelations(): void {
+    _correlations.clear();
+}
+
 // ── Clear everything (used on add-in startup) ───────────────────
 
 export function clearAll(): void {
     _inputs.clear();
     _outputs.clear();
+    _correlations.clear();
     _simulating = false;
     _currentIteration = 0;
     // Also wipe any leftover localStorage from older builds
@@ -2,7 +2,7 @@
  * App.tsx — Main task pane application with tab navigation
  * --------------------------------------------------------------- */
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
     PlayCircle24Regular,
     ChartMultiple24Regular,
@@ -14,14 +14,24 @@ import { SimulationSetup } from "./components/SimulationSetup";
 import { ResultsDashboard } from "./components/ResultsDashboard";
 import { SensitivityPanel } from "./components/SensitivityPanel";
 import { ExportPanel } from "./components/ExportPanel";
+import { RestoreBanner } from "./components/RestoreBanner";
+import { RestoreJournal } from "../engine/journal";
 import { useSimulation } from "./hooks/useSimulation";
 
 type Tab = "setup" | "results" | "sensitivity" | "export";
 
-export const App: React.FC = () => {
+interface Props {
+    /** Formulas an interrupted run left to restore, found at start-up */
+    journal?: RestoreJournal | null;
+}
+
+export const App: React.FC<Props> = ({ journal = null }) => {
     const [activeTab, setActiveTab] = useState<Tab>("setup");
+    const [pendingJournal, setPendingJournal] = useState(journal);
     const sim = useSimulation();
 
+    useEffect(() => setPendingJournal(journal), [journal]);
+
     const tabs: { id: Tab; label: string; icon: React.ReactNode }[] = [
         { id: "setup", label: "Setup", icon: <Settings24Regular /> },
         { id: "results", label: "Results", icon: <ChartMultiple24Regular /> },
@@ -56,6 +66,9 @@ export const App: React.FC = () => {
 
             {/* ── Tab Content ────────────────────────────────── */}
             <div style={styles.content}>
+                {pendingJournal && (
+                    <RestoreBanner journal={pendingJournal} onDone={() => setPendingJournal(null)} />
+                )}
                 {activeTab === "setup" && (
                     <SimulationSetup
                         config={sim.config}
@@ -63,7 +76,14 @@ export const App: React.FC = () => {
                         progress={sim.progress}
                         onRun={sim.run}
                         onCancel={sim.cancel}
+                        onStop={sim.stop}
+                        onPause={sim.pause}
+                        onResume={sim.resume}
                         isRunning={sim.isRunning}
+                        isPaused={sim.isPaused}
+                        warnings={sim.results?.warnings}
+                        convergence={sim.results?.convergence}
+                        error={sim.error}
                     />
                 )}
                 {activeTab === "results" && (
@@ -73,7 +93,13 @@ export const App: React.FC = () => {
                     <SensitivityPanel results={sim.results} />
                 )}
                 {activeTab === "export" && (
-                    <ExportPanel results={sim.results} />
+                    <ExportPanel
+                        results={sim.results}
+                        onRerun={(seed) => {
+                            setActiveTab("setup");
+                            sim.rerunWithSeed(seed);
+                        }}
+                    />
                 )}
             </div>
         </div>
@@ -5,7 +5,6 @@
 import React, { useRef, useEffect } from "react";
 import * as d3 from "d3";
 import { OutputResults } from "../../engine/types";
-import { computeCDF } from "../../engine/statistics";
 import { COLORS, formatNumber, formatPercent } from "../../shared/constants";
 
 interface Props {
@@ -25,12 +24,12 @@ export const CDFChart: React.FC<Props> = ({
     const h = height - margin.top - margin.bottom;
 
     useEffect(() => {
-        if (!svgRef.current || output.values.length === 0) return;
+        const cdfData = output.cdf;
+        if (!svgRef.current || cdfData.length === 0) return;
 
         const svg = d3.select(svgRef.current);
         svg.selectAll("*").remove();
 
-        const cdfData = computeCDF(output.values, 300);
         const { stats } = output;
 
         // Scales
@@ -0,0 +1,179 @@
+/* ---------------------------------------------------------------
+ * ConvergenceChart.tsx — Tracked statistics against iteration count (D3)
+ * --------------------------------------------------------------- */
+
+import React, { useRef, useEffect } from "react";
+import * as d3 from "d3";
+import { ConvergenceTrace } from "../../engine/types";
+import { COLORS, formatNumber } from "../../shared/constants";
+
+const LINE_COLORS = [
+    COLORS.primary,
+    COLORS.danger,
+    COLORS.secondary,
+    COLORS.success,
+    COLORS.accent,
+    COLORS.warning,
+    COLORS.neutral,
+];
+
+interface Props {
+    name: string;
+    trace: ConvergenceTrace;
+    /** Statistic names, in trace.values order */
+    statistics: string[];
+    /** Iteration at which the run converged, if it did */
+    convergedAt: number | null;
+    width?: number;
+    height?: number;
+}
+
+export const ConvergenceChart: React.FC<Props> = ({
+    name,
+    trace,
+    statistics,
+    convergedAt,
+    width = 420,
+    height = 260,
+}) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const margin = { top: 44, right: 20, bottom: 40, left: 50 };
+    const w = width - margin.left - margin.right;
+    const h = height - margin.top - margin.bottom;
+
+    useEffect(() => {
+        if (!svgRef.current || trace.iterations.length === 0) return;
+
+        const svg = d3.select(svgRef.current);
+        svg.selectAll("*").remove();
+
+        const its = trace.iterations;
+
+        // Scales
+        const x = d3
+            .scaleLinear()
+            .domain([0, its[its.length - 1]])
+            .range([0, w]);
+        const all = trace.values.flat();
+        const [lo = 0, hi = 0] = d3.extent(all);
+        const y = d3
+            .scaleLinear()
+            .domain(lo === hi ? [lo - 1, hi + 1] : [lo, hi])
+            .nice()
+            .range([h, 0]);
+
+        const g = svg
+            .append("g")
+            .attr("transform", `translate(${margin.left},${margin.top})`);
+
+        // Grid
+        g.selectAll(".grid-h")
+            .data(y.ticks(5))
+            .enter()
+            .append("line")
+            .attr("x1", 0).attr("x2", w)
+            .attr("y1", (d) => y(d)).attr("y2", (d) => y(d))
+            .attr("stroke", COLORS.gridLine).attr("stroke-width", 0.5);
+
+        // ── One line per statistic ───────────────────────────
+        const line = d3
+            .line<number>()
+            .x((_, i) => x(its[i]))
+            .y((v) => y(v));
+
+        trace.values.forEach((values, s) => {
+            g.append("path")
+                .datum(values)
+                .attr("d", line)
+                .attr("fill", "none")
+                .attr("stroke", LINE_COLORS[s % LINE_COLORS.length])
+                .attr("stroke-width", 1.8);
+        });
+
+        // ── Convergence marker ───────────────────────────────
+        if (convergedAt !== null) {
+            const cx = x(convergedAt);
+            g.append("line")
+                .attr("x1", cx)
+                .attr("x2", cx)
+                .attr("y1", 0)
+                .attr("y2", h)
+                .attr("stroke", COLORS.percentileLine)
+                .attr("stroke-width", 1)
+                .attr("stroke-dasharray", "3,3");
+
+            g.append("text")
+                .attr("x", cx - 4)
+                .attr("y", 10)
+                .attr("text-anchor", "end")
+                .attr("fill", COLORS.axisText)
+                .attr("font-size", 9)
+                .text(`Converged: ${convergedAt.toLocaleString()}`);
+        }
+
+        // ── Axes ─────────────────────────────────────────────
+        g.append("g")
+            .attr("transform", `translate(0,${h})`)
+            .call(
+                d3.axisBottom(x).ticks(5).tickFormat((d) => formatNumber(d as number, 0))
+            )
+            .selectAll("text")
+            .attr("fill", COLORS.axisText)
+            .attr("font-size", 10);
+
+        g.append("g")
+            .call(
+                d3.axisLeft(y).ticks(5).tickFormat((d) => formatNumber(d as number))
+            )
+            .selectAll("text")
+            .attr("fill", COLORS.axisText)
+            .attr("font-size", 10);
+
+        // Axis label
+        g.append("text")
+            .attr("x", w / 2)
+            .attr("y", h + 32)
+            .attr("text-anchor", "middle")
+            .attr("fill", COLORS.labelText)
+            .attr("font-size", 10)
+            .text("Iterations");
+
+        // ── Legend ───────────────────────────────────────────
+        const slot = Math.min(80, (width - margin.left) / Math.max(1, statistics.length));
+        statistics.forEach((label, s) => {
+            const lx = margin.left + s * slot;
+            svg.append("rect")
+                .attr("x", lx)
+                .attr("y", 27)
+                .attr("width", 12)
+                .attr("height", 3)
+                .attr("fill", LINE_COLORS[s % LINE_COLORS.length]);
+            svg.append("text")
+                .attr("x", lx + 16)
+                .attr("y", 33)
+                .attr("fill", COLORS.labelText)
+                .attr("font-size", 10)
+                .text(label);
+        });
+
+        // Title
+        svg.append("text")
+            .attr("x", width / 2)
+            .attr("y", 16)
+            .attr("text-anchor", "middle")
+            .attr("fill", COLORS.axisText)
+            .attr("font-size", 12)
+            .attr("font-weight", 600)
+            .text(`${name} — Convergence`);
+
+        // Clean up domain lines
+        g.selectAll(".domain").attr("stroke", COLORS.gridLine);
+        g.selectAll(".tick line").attr("stroke", COLORS.gridLine);
+    }, [name, trace, statistics, convergedAt, width, height]);
+
+    return (
+        <div className="chart-container">
+            <svg ref={svgRef} width={width} height={height} />
+        </div>
+    );
+};
@@ -8,16 +8,45 @@ import React, { useState } from "react";
 import { Button, MessageBar, MessageBarBody, Spinner } from "@fluentui/react-components";
 import {
     ArrowDownload24Regular,
+    ArrowRepeatAll24Regular,
     Table24Regular,
 } from "@fluentui/react-icons";
-import { SimulationResults } from "../../engine/types";
+import { EvaluationMode, SamplingMethod, SimulationConfig, SimulationResults } from "../../engine/types";
 import { formatNumber, formatPercent } from "../../shared/constants";
 
+function samplingLabel(method: SamplingMethod): string {
+    return method === "lhs" ? "Latin Hypercube" : "Monte Carlo";
+}
+
+function evaluationLabel(mode: EvaluationMode): string {
+    return mode === "javascript" ? "JavaScript" : "Excel recalculation";
+}
+
+function seedLabel(results: SimulationResults): string {
+    return results.config.seed === 0 ? `${results.seed} (random)` : String(results.seed);
+}
+
+function convergenceLabel(results: SimulationResults): string {
+    const { convergence } = results;
+    if (!convergence) return "Off";
+    return convergence.converged
+        ? `Converged at ${convergence.iteration!.toLocaleString()}`
+        : `Not reached in ${results.iterations.toLocaleString()}`;
+}
+
+function runModeLabel(config: SimulationConfig): string {
+    if (config.runMode === "time") return `For ${config.timeLimitSeconds.toLocaleString()} s`;
+    if (config.runMode === "manual") return "Until stopped";
+    return "Fixed iterations";
+}
+
 interface Props {
     results: SimulationResults | null;
+    /** Run again with the given seed */
+    onRerun?: (seed: number) => void;
 }
 
-export const ExportPanel: React.FC<Props> = ({ results }) => {
+export const ExportPanel: React.FC<Props> = ({ results, onRerun }) => {
     const [exporting, setExporting] = useState(false);
     const [message, setMessage] = useState<string | null>(null);
 
@@ -47,10 +76,35 @@ export const ExportPanel: React.FC<Props> = ({ results }) => {
                 sheet.getCell(row, 0).format.font.size = 14;
                 row += 1;
 
-                sheet.getCell(row, 0).values = [[`Iterations: ${results.config.iterations.toLocaleString()}`]];
+                sheet.getCell(row, 0).values = [[`Iterations: ${results.iterations.toLocaleString()}`]];
                 sheet.getCell(row, 1).values = [[`Elapsed: ${(results.elapsedMs / 1000).toFixed(1)}s`]];
+                sheet.getCell(row, 2).values = [[`Sampling: ${samplingLabel(results.config.samplingMethod)}`]];
+                sheet.getCell(row, 3).values = [[`Seed: ${seedLabel(results)}`]];
+                sheet.getCell(row, 4).values = [[`Evaluation: ${evaluationLabel(results.evaluation)}`]];
+                sheet.getCell(row, 5).values = [[`Convergence: ${convergenceLabel(results)}`]];
+                sheet.getCell(row, 6).values = [[`Run: ${runModeLabel(results.config)}`]];
                 row += 2;
 
+                // ── Range outputs: period × percentile ───────────
+                for (const group of results.groups) {
+                    sheet.getCell(row, 0).values = [[`${group.name} — Percentiles by Period`]];
+                    sheet.getCell(row, 0).format.font.bold = true;
+                    sheet.getCell(row, 0).format.font.size = 12;
+                    row += 1;
+
+                    const header = ["Period", "Cell", "Mean", "P5", "P10", "P25", "P50", "P75", "P90", "P95"];
+                    const table: (string | number)[][] = [
+                        header,
+                        ...group.periods.map((p, i) => {
+                            const pct = p.stats.percentiles;
+                            return [i + 1, p.cellAddress, p.stats.mean, pct.p5, pct.p10, pct.p25, pct.p50, pct.p75, pct.p90, pct.p95];
+                        }),
+                    ];
+                    sheet.getRangeByIndexes(row, 0, table.length, header.length).values = table;
+                    sheet.getRangeByIndexes(row, 0, 1, header.length).format.font.bold = true;
+                    row += table.length + 1;
+                }
+
                 // ── Per output ───────────────────────────────────
                 for (const output of results.outputs) {
                     const { stats } = output;
@@ -63,6 +117,8 @@ export const ExportPanel: React.FC<Props> = ({ results }) => {
 
                     // Statistics
                     const statRows: [string, string | number][] = [
+                        ["Iterations", stats.count],
+                        ["Errors", stats.errorCount],
                         ["Minimum", stats.minimum],
                         ["Maximum", stats.maximum],
                         ["Mean", stats.mean],
@@ -127,9 +183,11 @@ export const ExportPanel: React.FC<Props> = ({ results }) => {
 
                     // Write first 5000 values (or all if fewer)
                     const maxVals = Math.min(output.values.length, 5000);
-                    const valData: number[][] = [];
+                    const valData: (number | string)[][] = [];
                     for (let i = 0; i < maxVals; i++) {
-                        valData.push([output.values[i]]);
+                        // Failed iterations (NaN) are left blank
+                        const v = output.values[i];
+                        valData.push([Number.isFinite(v) ? v : ""]);
                     }
                     if (valData.length > 0) {
                         const range = sheet.getRangeByIndexes(row, 0, valData.length, 1);
@@ -193,7 +251,11 @@ export const ExportPanel: React.FC<Props> = ({ results }) => {
                     <tbody>
                         <tr>
                             <td>Iterations</td>
-                            <td>{results.config.iterations.toLocaleString()}</td>
+                            <td>{results.iterations.toLocaleString()}</td>
+                        </tr>
+                        <tr>
+                            <td>Run</td>
+                            <td>{runModeLabel(results.config)}</td>
                         </tr>
                         <tr>
                             <td>Elapsed Time</td>
@@ -203,12 +265,33 @@ export const ExportPanel: React.FC<Props> = ({ results }) => {
                             <td>Outputs</td>
                             <td>{results.outputs.length}</td>
                         </tr>
+                        <tr>
+                            <td>Sampling</td>
+                            <td>{samplingLabel(results.config.samplingMethod)}</td>
+                        </tr>
                         <tr>
                             <td>Seed</td>
-                            <td>{results.config.seed === 0 ? "Random" : results.config.seed}</td>
+                            <td>{seedLabel(results)}</td>
+                        </tr>
+                        <tr>
+                            <td>Evaluation</td>
+                            <td>{evaluationLabel(results.evaluation)}</td>
+                        </tr>
+                        <tr>
+                            <td>Convergence</td>
+                            <td>{convergenceLabel(results)}</td>
                         </tr>
                     </tbody>
                 </table>
+                {onRerun && (
+                    <Button
+                        icon={<ArrowRepeatAll24Regular />}
+                        onClick={() => onRerun(results.seed)}
+                        style={{ width: "100%", marginTop: 8 }}
+                    >
+                        Re-run with this seed
+                    </Button>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,80 @@
+/* ---------------------------------------------------------------
+ * FailedIterations.tsx — Iterations in which an output failed,
+ *                        with the input samples that caused them
+ * --------------------------------------------------------------- */
+
+import React, { useState } from "react";
+import { Select, Label } from "@fluentui/react-components";
+import { ErrorCircle24Regular } from "@fluentui/react-icons";
+import { ErrorPolicy, OutputResults, SimulationResults } from "../../engine/types";
+import { formatNumber } from "../../shared/constants";
+
+const POLICY_NOTE: Record<ErrorPolicy, string> = {
+    skip: "These iterations were left out of every output's results.",
+    nan: "These iterations are left out of this output's statistics only.",
+    stop: "",
+};
+
+interface Props {
+    results: SimulationResults;
+    output: OutputResults;
+}
+
+export const FailedIterations: React.FC<Props> = ({ results, output }) => {
+    const [selected, setSelected] = useState(0);
+
+    const failures = results.failures.filter((f) =>
+        f.errors.some((e) => e.outputId === output.outputId)
+    );
+    if (failures.length === 0) return null;
+
+    const failure = failures[Math.min(selected, failures.length - 1)];
+    const valueOf = (f: typeof failure) => f.errors.find((e) => e.outputId === output.outputId)!.value;
+
+    return (
+        <div className="card">
+            <div className="card-header">
+                <ErrorCircle24Regular />
+                Failed Iterations ({output.stats.errorCount.toLocaleString()})
+            </div>
+            <p style={{ fontSize: 11, color: "#6b7280", marginBottom: 8 }}>
+                {POLICY_NOTE[results.config.errorPolicy]}
+                {failures.length < output.stats.errorCount &&
+                    ` Only the first ${failures.length.toLocaleString()} are listed.`}
+            </p>
+
+            <div className="flex-row" style={{ marginBottom: 8 }}>
+                <Label htmlFor="failure-sel" style={{ fontSize: 12 }}>
+                    Iteration:
+                </Label>
+                <Select
+                    id="failure-sel"
+                    size="small"
+                    value={String(Math.min(selected, failures.length - 1))}
+                    onChange={(_, d) => setSelected(parseInt(d.value))}
+                >
+                    {failures.map((f, i) => (
+                        <option key={f.iteration} value={String(i)}>
+                            #{f.iteration} — {valueOf(f)}
+                        </option>
+                    ))}
+                </Select>
+            </div>
+
+            <table className="stats-table">
+                <tbody>
+                    <tr>
+                        <td>{output.name}</td>
+                        <td>{valueOf(failure)}</td>
+                    </tr>
+                    {results.inputNames.map((name, j) => (
+                        <tr key={name}>
+                            <td>{name}</td>
+                            <td>{formatNumber(failure.inputs[j], 4)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
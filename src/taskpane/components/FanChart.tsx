@@ -0,0 +1,202 @@
+/* ---------------------------------------------------------------
+ * FanChart.tsx — Percentile bands over the periods of a range output (D3)
+ * --------------------------------------------------------------- */
+
+import React, { useRef, useEffect } from "react";
+import * as d3 from "d3";
+import { OutputGroupResults, OutputResults } from "../../engine/types";
+import { COLORS, formatNumber } from "../../shared/constants";
+
+interface Props {
+    group: OutputGroupResults;
+    /** Period to mark, e.g. the one selected in the dashboard */
+    highlightIndex?: number;
+    width?: number;
+    height?: number;
+}
+
+export const FanChart: React.FC<Props> = ({
+    group,
+    highlightIndex,
+    width = 420,
+    height = 260,
+}) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const margin = { top: 44, right: 20, bottom: 40, left: 50 };
+    const w = width - margin.left - margin.right;
+    const h = height - margin.top - margin.bottom;
+
+    useEffect(() => {
+        if (!svgRef.current || group.periods.length === 0) return;
+
+        const svg = d3.select(svgRef.current);
+        svg.selectAll("*").remove();
+
+        const periods = group.periods;
+        const n = periods.length;
+
+        // Scales
+        const x = d3.scaleLinear().domain([0, Math.max(1, n - 1)]).range([0, w]);
+        const yMin = d3.min(periods, (p) => p.stats.percentiles.p5) ?? 0;
+        const yMax = d3.max(periods, (p) => p.stats.percentiles.p95) ?? 0;
+        const y = d3
+            .scaleLinear()
+            .domain(yMin === yMax ? [yMin - 1, yMax + 1] : [yMin, yMax])
+            .nice()
+            .range([h, 0]);
+
+        const g = svg
+            .append("g")
+            .attr("transform", `translate(${margin.left},${margin.top})`);
+
+        // Grid
+        g.selectAll(".grid-h")
+            .data(y.ticks(5))
+            .enter()
+            .append("line")
+            .attr("x1", 0).attr("x2", w)
+            .attr("y1", (d) => y(d)).attr("y2", (d) => y(d))
+            .attr("stroke", COLORS.gridLine).attr("stroke-width", 0.5);
+
+        // ── Percentile bands ─────────────────────────────────
+        const band = (lo: (p: OutputResults) => number, hi: (p: OutputResults) => number) =>
+            d3
+                .area<OutputResults>()
+                .x((_, i) => x(i))
+                .y0((p) => y(lo(p)))
+                .y1((p) => y(hi(p)))
+                .curve(d3.curveMonotoneX);
+
+        g.append("path")
+            .datum(periods)
+            .attr("d", band((p) => p.stats.percentiles.p5, (p) => p.stats.percentiles.p95))
+            .attr("fill", COLORS.primary)
+            .attr("opacity", 0.15);
+
+        g.append("path")
+            .datum(periods)
+            .attr("d", band((p) => p.stats.percentiles.p25, (p) => p.stats.percentiles.p75))
+            .attr("fill", COLORS.primary)
+            .attr("opacity", 0.3);
+
+        // ── Median line ──────────────────────────────────────
+        const median = d3
+            .line<OutputResults>()
+            .x((_, i) => x(i))
+            .y((p) => y(p.stats.percentiles.p50))
+            .curve(d3.curveMonotoneX);
+
+        g.append("path")
+            .datum(periods)
+            .attr("d", median)
+            .attr("fill", "none")
+            .attr("stroke", COLORS.primaryDark)
+            .attr("stroke-width", 2.5);
+
+        // ── Highlighted period ───────────────────────────────
+        if (highlightIndex !== undefined && highlightIndex < n) {
+            const px = x(highlightIndex);
+            const p50 = periods[highlightIndex].stats.percentiles.p50;
+
+            g.append("line")
+                .attr("x1", px)
+                .attr("x2", px)
+                .attr("y1", 0)
+                .attr("y2", h)
+                .attr("stroke", COLORS.percentileLine)
+                .attr("stroke-width", 1)
+                .attr("stroke-dasharray", "3,3");
+
+            g.append("circle")
+                .attr("cx", px)
+                .attr("cy", y(p50))
+                .attr("r", 3.5)
+                .attr("fill", COLORS.percentileLine)
+                .attr("stroke", "#fff")
+                .attr("stroke-width", 1.5);
+
+            g.append("text")
+                .attr("x", px + (px > w / 2 ? -4 : 4))
+                .attr("y", y(p50) - 6)
+                .attr("text-anchor", px > w / 2 ? "end" : "start")
+                .attr("fill", COLORS.axisText)
+                .attr("font-size", 9)
+                .text(`P50: ${formatNumber(p50)}`);
+        }
+
+        // ── Axes ─────────────────────────────────────────────
+        const step = Math.ceil(n / 10);
+        g.append("g")
+            .attr("transform", `translate(0,${h})`)
+            .call(
+                d3
+                    .axisBottom(x)
+                    .tickValues(d3.range(0, n, step))
+                    .tickFormat((d) => String((d as number) + 1))
+            )
+            .selectAll("text")
+            .attr("fill", COLORS.axisText)
+            .attr("font-size", 10);
+
+        g.append("g")
+            .call(
+                d3.axisLeft(y).ticks(5).tickFormat((d) => formatNumber(d as number))
+            )
+            .selectAll("text")
+            .attr("fill", COLORS.axisText)
+            .attr("font-size", 10);
+
+        // Axis label
+        g.append("text")
+            .attr("x", w / 2)
+            .attr("y", h + 32)
+            .attr("text-anchor", "middle")
+            .attr("fill", COLORS.labelText)
+            .attr("font-size", 10)
+            .text("Period");
+
+        // ── Legend ───────────────────────────────────────────
+        const legend = [
+            { label: "P5–P95", color: COLORS.primary, opacity: 0.15 },
+            { label: "P25–P75", color: COLORS.primary, opacity: 0.3 },
+            { label: "Median", color: COLORS.primaryDark, opacity: 1 },
+        ];
+        legend.forEach(({ label, color, opacity }, i) => {
+            const lx = margin.left + i * 80;
+            svg.append("rect")
+                .attr("x", lx)
+                .attr("y", 24)
+                .attr("width", 12)
+                .attr("height", label === "Median" ? 3 : 10)
+                .attr("transform", label === "Median" ? "translate(0,4)" : null)
+                .attr("fill", color)
+                .attr("opacity", opacity);
+            svg.append("text")
+                .attr("x", lx + 16)
+                .attr("y", 33)
+                .attr("fill", COLORS.labelText)
+                .attr("font-size", 10)
+                .text(label);
+        });
+
+        // Title
+        svg.append("text")
+            .attr("x", width / 2)
+            .attr("y", 16)
+            .attr("text-anchor", "middle")
+            .attr("fill", COLORS.axisText)
+            .attr("font-size", 12)
+            .attr("font-weight", 600)
+            .text(`${group.name} — Percentiles by Period`);
+
+        // Clean up domain lines
+        g.selectAll(".domain").attr("stroke", COLORS.gridLine);
+        g.selectAll(".tick line").attr("stroke", COLORS.gridLine);
+    }, [group, highlightIndex, width, height]);
+
+    return (
+        <div className="chart-container">
+            <svg ref={svgRef} width={width} height={height} />
+        </div>
+    );
+};
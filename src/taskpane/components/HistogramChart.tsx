@@ -5,7 +5,6 @@
 import React, { useRef, useEffect } from "react";
 import * as d3 from "d3";
 import { OutputResults } from "../../engine/types";
-import { computeHistogram } from "../../engine/statistics";
 import { COLORS, formatNumber } from "../../shared/constants";
 
 interface Props {
@@ -25,12 +24,12 @@ export const HistogramChart: React.FC<Props> = ({
     const h = height - margin.top - margin.bottom;
 
     useEffect(() => {
-        if (!svgRef.current || output.values.length === 0) return;
+        const bins = output.histogram;
+        if (!svgRef.current || bins.length === 0) return;
 
         const svg = d3.select(svgRef.current);
         svg.selectAll("*").remove();
 
-        const bins = computeHistogram(output.values);
         const { stats } = output;
 
         // Scales
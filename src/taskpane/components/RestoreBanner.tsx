@@ -0,0 +1,61 @@
+/* ---------------------------------------------------------------
+ * RestoreBanner.tsx — Offer to put back formulas an interrupted
+ *                     run left as sampled numbers
+ * --------------------------------------------------------------- */
+
+import React, { useState } from "react";
+import {
+    Button,
+    MessageBar,
+    MessageBarActions,
+    MessageBarBody,
+    MessageBarTitle,
+} from "@fluentui/react-components";
+import { RestoreJournal, discardJournal, restoreJournal } from "../../engine/journal";
+
+interface Props {
+    journal: RestoreJournal;
+    /** Called once the journal has been restored or discarded */
+    onDone: () => void;
+}
+
+export const RestoreBanner: React.FC<Props> = ({ journal, onDone }) => {
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const act = async (action: () => Promise<unknown>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+            onDone();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const started = new Date(journal.started);
+    const cells = journal.cells.map((c) => c.address);
+
+    return (
+        <MessageBar intent={error ? "error" : "warning"} layout="multiline" style={{ marginBottom: 12 }}>
+            <MessageBarBody>
+                <MessageBarTitle>Interrupted simulation</MessageBarTitle>
+                A run started {started.toLocaleString()} stopped before it could put back{" "}
+                {cells.length} input formula{cells.length === 1 ? "" : "s"} ({cells.slice(0, 3).join(", ")}
+                {cells.length > 3 ? ", …" : ""}). Those cells hold sampled numbers.
+                {error && <div style={{ marginTop: 4 }}>{error}</div>}
+            </MessageBarBody>
+            <MessageBarActions>
+                <Button appearance="primary" size="small" disabled={busy} onClick={() => act(() => restoreJournal(journal))}>
+                    Restore formulas
+                </Button>
+                <Button size="small" disabled={busy} onClick={() => act(discardJournal)}>
+                    Discard
+                </Button>
+            </MessageBarActions>
+        </MessageBar>
+    );
+};
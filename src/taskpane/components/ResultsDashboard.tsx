@@ -3,12 +3,15 @@
  * --------------------------------------------------------------- */
 
 import React, { useState } from "react";
-import { Select, Label } from "@fluentui/react-components";
+import { Select, Label, MessageBar, MessageBarBody } from "@fluentui/react-components";
 import { ChartMultiple24Regular } from "@fluentui/react-icons";
 import { SimulationResults } from "../../engine/types";
 import { HistogramChart } from "./HistogramChart";
 import { CDFChart } from "./CDFChart";
+import { FanChart } from "./FanChart";
+import { ConvergenceChart } from "./ConvergenceChart";
 import { StatisticsTable } from "./StatisticsTable";
+import { FailedIterations } from "./FailedIterations";
 
 interface Props {
     results: SimulationResults | null;
@@ -31,9 +34,23 @@ export const ResultsDashboard: React.FC<Props> = ({ results, threshold = 0 }) =>
     }
 
     const output = results.outputs[selectedOutputIdx] ?? results.outputs[0];
+    const group = output.group && results.groups.find((g) => g.id === output.group!.id);
+    const trace = results.convergence?.traces.find((t) => t.outputId === output.outputId);
+    const failedOutputs = results.outputs.filter((o) => o.stats.errorCount > 0);
 
     return (
         <div>
+            {/* ── Failed iterations pointer ───────────────────── */}
+            {results.failureCount > 0 && (
+                <MessageBar intent="warning" style={{ marginBottom: 12 }}>
+                    <MessageBarBody>
+                        {results.failureCount.toLocaleString()} iterations had failed outputs (
+                        {failedOutputs.map((o) => o.name).join(", ")}). Each of these outputs lists its
+                        failed iterations and their inputs under Failed Iterations below.
+                    </MessageBarBody>
+                </MessageBar>
+            )}
+
             {/* ── Output selector ───────────────────────────── */}
             {results.outputs.length > 1 && (
                 <div className="card" style={{ paddingBottom: 10 }}>
@@ -86,6 +103,13 @@ export const ResultsDashboard: React.FC<Props> = ({ results, threshold = 0 }) =>
                 </div>
             </div>
 
+            {/* ── Fan chart (range outputs) ───────────────────── */}
+            {group && (
+                <div className="card">
+                    <FanChart group={group} highlightIndex={output.group!.index} />
+                </div>
+            )}
+
             {/* ── Histogram ──────────────────────────────────── */}
             <div className="card">
                 <HistogramChart output={output} />
@@ -96,8 +120,25 @@ export const ResultsDashboard: React.FC<Props> = ({ results, threshold = 0 }) =>
                 <CDFChart output={output} />
             </div>
 
+            {/* ── Convergence (convergence mode) ─────────────── */}
+            {results.convergence && trace && (
+                <div className="card">
+                    <ConvergenceChart
+                        name={output.name}
+                        trace={trace}
+                        statistics={results.convergence.statistics}
+                        convergedAt={results.convergence.iteration}
+                    />
+                </div>
+            )}
+
             {/* ── Statistics table ────────────────────────────── */}
             <StatisticsTable stats={output.stats} name={output.name} threshold={threshold} />
+
+            {/* ── Failed iterations ──────────────────────────── */}
+            {output.stats.errorCount > 0 && (
+                <FailedIterations key={output.outputId} results={results} output={output} />
+            )}
         </div>
     );
 };
@@ -5,38 +5,68 @@ import {
     Label,
     MessageBar,
     MessageBarBody,
+    Spinner,
     Tooltip,
 } from "@fluentui/react-components";
 import {
     Play24Filled,
+    Pause24Filled,
     Stop24Filled,
     Info24Regular,
 } from "@fluentui/react-icons";
 import {
+    ErrorPolicy,
+    RunMode,
+    SamplingMethod,
     SimulationConfig,
     SimulationProgress,
     DistributionInput,
     SimulationOutput,
+    CorrelationMatrix,
+    ConvergenceResults,
 } from "../../engine/types";
-import { getInputs, getOutputs } from "../../shared/storage";
-import { MIN_ITERATIONS, MAX_ITERATIONS, formatNumber } from "../../shared/constants";
+import { getDistribution, getParameterisation } from "../../engine/registry";
+import { describeModifiers } from "../../engine/modifiers";
+import { getInputs, getOutputs, getCorrelations } from "../../shared/storage";
+import {
+    MIN_ITERATIONS,
+    MAX_ITERATIONS,
+    MAX_BATCH_SIZE,
+    DEFAULT_CONVERGENCE_TOLERANCE,
+    DEFAULT_CONVERGENCE_WINDOW,
+    DEFAULT_CONVERGENCE_PERCENTILES,
+    formatNumber,
+} from "../../shared/constants";
 import { MiniDistChart } from "./MiniDistChart";
 
-// Format distribution params as a short annotation
-function paramLabel(type: string, params: Record<string, number | number[]>): string {
-    const p = (k: string) => {
-        const v = params[k];
-        const n = typeof v === "number" ? v : (v as number[])?.[0] ?? 0;
-        return Number.isInteger(n) ? String(n) : n.toFixed(n < 1 ? 3 : 2);
-    };
-    switch (type) {
-        case "normal": return `μ=${p("mean")}, σ=${p("stdev")}`;
-        case "triangular": return `${p("min")} – ${p("mode")} – ${p("max")}`;
-        case "pert": return `${p("min")} – ${p("mode")} – ${p("max")}`;
-        case "uniform": return `${p("min")} – ${p("max")}`;
-        case "lognormal": return `μ=${p("mu")}, σ=${p("sigma")}`;
-        default: return "";
+// Format distribution params (and any truncation/shift) as a short annotation.
+// Inputs entered through an alternative parameterisation show the
+// entered values followed by the derived native ones.
+function paramLabel(inp: DistributionInput): string {
+    const base = getDistribution(inp.type)?.describe(inp.params) ?? "";
+    const alt = inp.entered && getParameterisation(inp.entered.functionId);
+    const shown = alt ? `${alt.describe(inp.entered!.params)} → ${base}` : base;
+    return shown + describeModifiers(inp.modifiers);
+}
+
+/** Percentiles as typed, e.g. "5, 50, 95" → [0.05, 0.5, 0.95]; null if any is invalid */
+function parsePercentiles(text: string): number[] | null {
+    const parts = text.split(/[,;\s]+/).filter((t) => t !== "");
+    const values = parts.map((t) => parseFloat(t) / 100);
+    return values.every((p) => p > 0 && p < 1) ? values : null;
+}
+
+/** How full the progress bar is — by time in time-limited runs */
+function progressPercent(progress: SimulationProgress, config: SimulationConfig): number {
+    if (config.runMode === "time") {
+        return Math.min(100, Math.round((progress.elapsedMs / (config.timeLimitSeconds * 1000)) * 100));
     }
+    return Math.round((progress.currentIteration / progress.totalIterations) * 100);
+}
+
+/** Seconds as shown on the progress bar, e.g. "12 s" */
+function formatSeconds(ms: number): string {
+    return `${Math.floor(ms / 1000).toLocaleString()} s`;
 }
 
 interface Props {
@@ -45,7 +75,19 @@ interface Props {
     progress: SimulationProgress | null;
     onRun: () => void;
     onCancel: () => void;
+    /** End a time or manual run and keep what it completed */
+    onStop: () => void;
+    /** Pause after the batch in progress */
+    onPause: () => void;
+    onResume: () => void;
     isRunning: boolean;
+    isPaused: boolean;
+    /** Warnings from the last run */
+    warnings?: string[];
+    /** Convergence outcome of the last run, in convergence mode */
+    convergence?: ConvergenceResults;
+    /** Error message from the last failed run */
+    error?: string | null;
 }
 
 export const SimulationSetup: React.FC<Props> = ({
@@ -54,23 +96,34 @@ export const SimulationSetup: React.FC<Props> = ({
     progress,
     onRun,
     onCancel,
+    onStop,
+    onPause,
+    onResume,
     isRunning,
+    isPaused,
+    warnings = [],
+    convergence,
+    error,
 }) => {
     const [inputs, setInputs] = useState<DistributionInput[]>(getInputs());
     const [outputs, setOutputs] = useState<SimulationOutput[]>(getOutputs());
+    const [correlations, setCorrelations] = useState<CorrelationMatrix[]>(getCorrelations());
+    const [percentileText, setPercentileText] = useState(
+        (config.convergence?.percentiles ?? DEFAULT_CONVERGENCE_PERCENTILES).map((p) => p * 100).join(", ")
+    );
 
     // Poll for new inputs/outputs every 2 seconds
     useEffect(() => {
         const interval = setInterval(() => {
             setInputs(getInputs());
             setOutputs(getOutputs());
+            setCorrelations(getCorrelations());
         }, 2000);
         return () => clearInterval(interval);
     }, []);
 
-    const pct = progress
-        ? Math.round((progress.currentIteration / progress.totalIterations) * 100)
-        : 0;
+    const pct = progress ? progressPercent(progress, config) : 0;
+    const moreIterations = config.runMode === "iterations" ? "raise the maximum" : "allow more time";
 
     return (
         <div>
@@ -78,23 +131,62 @@ export const SimulationSetup: React.FC<Props> = ({
             <div className="card">
                 <div className="card-header">Simulation Settings</div>
 
+                <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr", gap: 10, marginBottom: 10 }}>
+                    <div>
+                        <Label htmlFor="run-mode-input" style={{ fontSize: 11, display: "block", marginBottom: 3 }}>
+                            Run
+                        </Label>
+                        <select
+                            id="run-mode-input"
+                            value={config.runMode}
+                            onChange={(e) => onConfigChange({ ...config, runMode: e.target.value as RunMode })}
+                            disabled={isRunning}
+                            style={{ width: "100%", padding: "5px 8px", border: "1px solid #d1d5db", borderRadius: 6, fontSize: 12 }}
+                        >
+                            <option value="iterations">For a number of iterations</option>
+                            <option value="time">For a set time</option>
+                            <option value="manual">Until stopped</option>
+                        </select>
+                    </div>
+                    {config.runMode === "time" && (
+                        <div>
+                            <Label htmlFor="seconds-input" style={{ fontSize: 11, display: "block", marginBottom: 3 }}>
+                                Seconds
+                            </Label>
+                            <input
+                                id="seconds-input"
+                                type="number"
+                                min={1}
+                                step={5}
+                                value={config.timeLimitSeconds}
+                                onChange={(e) => {
+                                    const v = parseFloat(e.target.value);
+                                    if (v > 0) onConfigChange({ ...config, timeLimitSeconds: v });
+                                }}
+                                disabled={isRunning}
+                                style={{ width: "100%", padding: "5px 8px", border: "1px solid #d1d5db", borderRadius: 6, fontSize: 12 }}
+                            />
+                        </div>
+                    )}
+                </div>
+
                 <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 10, marginBottom: 10 }}>
                     <div>
                         <Label htmlFor="iter-input" style={{ fontSize: 11, display: "block", marginBottom: 3 }}>
-                            Iterations
+                            {config.convergence ? "Max iterations" : "Iterations"}
                         </Label>
                         <input
                             id="iter-input"
                             type="number"
-                            min={100}
-                            max={50000}
+                            min={MIN_ITERATIONS}
+                            max={MAX_ITERATIONS}
                             step={100}
                             value={config.iterations}
                             onChange={(e) => {
-                                const v = Math.max(100, Math.min(50000, parseInt(e.target.value) || 1000));
+                                const v = Math.max(MIN_ITERATIONS, Math.min(MAX_ITERATIONS, parseInt(e.target.value) || 1000));
                                 onConfigChange({ ...config, iterations: v });
                             }}
-                            disabled={isRunning}
+                            disabled={isRunning || config.runMode !== "iterations"}
                             style={{ width: "100%", padding: "5px 8px", border: "1px solid #d1d5db", borderRadius: 6, fontSize: 12 }}
                         />
                     </div>
@@ -129,6 +221,146 @@ export const SimulationSetup: React.FC<Props> = ({
                     </div>
                 </div>
 
+                <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr", gap: 10, marginBottom: 10 }}>
+                    <div>
+                        <Label htmlFor="sampling-input" style={{ fontSize: 11, display: "block", marginBottom: 3 }}>
+                            Sampling
+                        </Label>
+                        <select
+                            id="sampling-input"
+                            value={config.samplingMethod}
+                            onChange={(e) => onConfigChange({ ...config, samplingMethod: e.target.value as SamplingMethod })}
+                            disabled={isRunning}
+                            style={{ width: "100%", padding: "5px 8px", border: "1px solid #d1d5db", borderRadius: 6, fontSize: 12 }}
+                        >
+                            <option value="montecarlo">Monte Carlo (random)</option>
+                            <option value="lhs">Latin Hypercube (stratified)</option>
+                        </select>
+                    </div>
+                    <div>
+                        <Label htmlFor="batch-input" style={{ fontSize: 11, display: "block", marginBottom: 3 }}>
+                            Batch size
+                        </Label>
+                        <input
+                            id="batch-input"
+                            type="number"
+                            min={1}
+                            max={MAX_BATCH_SIZE}
+                            step={1}
+                            value={config.batchSize}
+                            onChange={(e) => {
+                                const v = Math.max(1, Math.min(MAX_BATCH_SIZE, parseInt(e.target.value) || 1));
+                                onConfigChange({ ...config, batchSize: v });
+                            }}
+                            disabled={isRunning}
+                            style={{ width: "100%", padding: "5px 8px", border: "1px solid #d1d5db", borderRadius: 6, fontSize: 12 }}
+                        />
+                    </div>
+                </div>
+
+                <div style={{ marginBottom: 10 }}>
+                    <Label htmlFor="error-policy-input" style={{ fontSize: 11, display: "block", marginBottom: 3 }}>
+                        When an output shows an error
+                    </Label>
+                    <select
+                        id="error-policy-input"
+                        value={config.errorPolicy}
+                        onChange={(e) => onConfigChange({ ...config, errorPolicy: e.target.value as ErrorPolicy })}
+                        disabled={isRunning}
+                        style={{ width: "100%", padding: "5px 8px", border: "1px solid #d1d5db", borderRadius: 6, fontSize: 12 }}
+                    >
+                        <option value="skip">Skip the iteration</option>
+                        <option value="nan">Keep the iteration, leave the output out</option>
+                        <option value="stop">Stop the run</option>
+                    </select>
+                </div>
+
+                {/* ── Convergence ───────────────────────────────── */}
+                <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12, marginBottom: 10 }}>
+                    <input
+                        type="checkbox"
+                        checked={!!config.convergence}
+                        onChange={(e) =>
+                            onConfigChange({
+                                ...config,
+                                convergence: e.target.checked
+                                    ? {
+                                          tolerance: DEFAULT_CONVERGENCE_TOLERANCE,
+                                          window: DEFAULT_CONVERGENCE_WINDOW,
+                                          percentiles: parsePercentiles(percentileText) ?? DEFAULT_CONVERGENCE_PERCENTILES,
+                                      }
+                                    : undefined,
+                            })
+                        }
+                        disabled={isRunning}
+                    />
+                    Stop when results converge
+                </label>
+
+                {config.convergence && (
+                    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 10, marginBottom: 10 }}>
+                        <div>
+                            <Label htmlFor="tol-input" style={{ fontSize: 11, display: "block", marginBottom: 3 }}>
+                                Tolerance (%)
+                            </Label>
+                            <input
+                                id="tol-input"
+                                type="number"
+                                min={0.01}
+                                step={0.1}
+                                value={config.convergence.tolerance * 100}
+                                onChange={(e) => {
+                                    const v = parseFloat(e.target.value);
+                                    if (v > 0) onConfigChange({ ...config, convergence: { ...config.convergence!, tolerance: v / 100 } });
+                                }}
+                                disabled={isRunning}
+                                style={{ width: "100%", padding: "5px 8px", border: "1px solid #d1d5db", borderRadius: 6, fontSize: 12 }}
+                            />
+                        </div>
+                        <div>
+                            <Label htmlFor="window-input" style={{ fontSize: 11, display: "block", marginBottom: 3 }}>
+                                Window
+                            </Label>
+                            <input
+                                id="window-input"
+                                type="number"
+                                min={1}
+                                step={100}
+                                value={config.convergence.window}
+                                onChange={(e) => {
+                                    const v = Math.max(1, parseInt(e.target.value) || DEFAULT_CONVERGENCE_WINDOW);
+                                    onConfigChange({ ...config, convergence: { ...config.convergence!, window: v } });
+                                }}
+                                disabled={isRunning}
+                                style={{ width: "100%", padding: "5px 8px", border: "1px solid #d1d5db", borderRadius: 6, fontSize: 12 }}
+                            />
+                        </div>
+                        <div>
+                            <Label htmlFor="pct-input" style={{ fontSize: 11, display: "block", marginBottom: 3 }}>
+                                Percentiles (%)
+                            </Label>
+                            <input
+                                id="pct-input"
+                                type="text"
+                                value={percentileText}
+                                onChange={(e) => {
+                                    setPercentileText(e.target.value);
+                                    const parsed = parsePercentiles(e.target.value);
+                                    if (parsed) onConfigChange({ ...config, convergence: { ...config.convergence!, percentiles: parsed } });
+                                }}
+                                disabled={isRunning}
+                                style={{
+                                    width: "100%",
+                                    padding: "5px 8px",
+                                    border: `1px solid ${parsePercentiles(percentileText) ? "#d1d5db" : "#ef4444"}`,
+                                    borderRadius: 6,
+                                    fontSize: 12,
+                                }}
+                            />
+                        </div>
+                    </div>
+                )}
+
                 <div className="flex-row">
                     <Button
                         appearance="primary"
@@ -139,11 +371,20 @@ export const SimulationSetup: React.FC<Props> = ({
                     >
                         Run Simulation
                     </Button>
+                    {isRunning && (
+                        <Button
+                            appearance="outline"
+                            icon={isPaused ? <Play24Filled /> : <Pause24Filled />}
+                            onClick={isPaused ? onResume : onPause}
+                        >
+                            {isPaused ? "Resume" : "Pause"}
+                        </Button>
+                    )}
                     {isRunning && (
                         <Button
                             appearance="outline"
                             icon={<Stop24Filled />}
-                            onClick={onCancel}
+                            onClick={config.runMode === "iterations" ? onCancel : onStop}
                         >
                             Stop
                         </Button>
@@ -152,42 +393,85 @@ export const SimulationSetup: React.FC<Props> = ({
             </div>
 
             {/* ── Progress ───────────────────────────────────── */}
-            {progress && progress.status === "running" && (
+            {progress && (progress.status === "running" || progress.status === "paused") && (
                 <div className="card">
-                    <div className="card-header">Progress</div>
-                    <div className="progress-bar-track">
-                        <div
-                            className="progress-bar-fill"
-                            style={{ width: `${pct}%` }}
-                        />
-                    </div>
+                    <div className="card-header">{isPaused ? "Paused" : "Progress"}</div>
+                    {config.runMode !== "manual" && (
+                        <div className="progress-bar-track">
+                            <div
+                                className="progress-bar-fill"
+                                style={{ width: `${pct}%` }}
+                            />
+                        </div>
+                    )}
                     <div
                         className="flex-between mt-8"
                         style={{ fontSize: 11, color: "#6b7280" }}
                     >
-                        <span>
-                            {progress.currentIteration.toLocaleString()} /{" "}
-                            {progress.totalIterations.toLocaleString()}
-                        </span>
+                        {config.runMode === "iterations" ? (
+                            <span>
+                                {progress.currentIteration.toLocaleString()} /{" "}
+                                {progress.totalIterations.toLocaleString()}
+                            </span>
+                        ) : (
+                            <span>
+                                {formatSeconds(progress.elapsedMs)}
+                                {config.runMode === "time" && ` / ${formatSeconds(config.timeLimitSeconds * 1000)}`}
+                                {" · "}
+                                {progress.currentIteration.toLocaleString()} iterations
+                            </span>
+                        )}
                         <span>
                             {progress.iterationsPerSecond.toFixed(0)} iter/s
                         </span>
                     </div>
+                    {isPaused && (
+                        <p style={{ fontSize: 11, color: "#6b7280", marginTop: 8 }}>
+                            The workbook has its original formulas back. Statistics so far are on
+                            the Results tab; Resume carries on where the run left off.
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {progress && progress.status === "computing" && (
+                <div className="card">
+                    <Spinner
+                        size="tiny"
+                        labelPosition="after"
+                        label={`Computing statistics for ${progress.currentIteration.toLocaleString()} iterations…`}
+                    />
                 </div>
             )}
 
             {progress && progress.status === "completed" && (
                 <MessageBar intent="success" style={{ marginBottom: 12 }}>
                     <MessageBarBody>
-                        Simulation completed — {progress.totalIterations.toLocaleString()} iterations
+                        Simulation completed — {progress.currentIteration.toLocaleString()} iterations
                         in {(progress.elapsedMs / 1000).toFixed(1)}s
                     </MessageBarBody>
                 </MessageBar>
             )}
 
+            {progress && progress.status === "completed" && convergence && (
+                <MessageBar intent={convergence.converged ? "success" : "warning"} style={{ marginBottom: 12 }}>
+                    <MessageBarBody>
+                        {convergence.converged
+                            ? `Converged after ${convergence.iteration!.toLocaleString()} iterations`
+                            : `Did not converge within ${progress.currentIteration.toLocaleString()} iterations — ${moreIterations} or loosen the tolerance`}
+                    </MessageBarBody>
+                </MessageBar>
+            )}
+
+            {progress && progress.status === "completed" && warnings.map((w, i) => (
+                <MessageBar key={i} intent="warning" style={{ marginBottom: 12 }}>
+                    <MessageBarBody>{w}</MessageBarBody>
+                </MessageBar>
+            ))}
+
             {progress && progress.status === "error" && (
                 <MessageBar intent="error" style={{ marginBottom: 12 }}>
-                    <MessageBarBody>Simulation failed. Check inputs and outputs.</MessageBarBody>
+                    <MessageBarBody>{error || "Simulation failed. Check inputs and outputs."}</MessageBarBody>
                 </MessageBar>
             )}
 
@@ -197,6 +481,13 @@ export const SimulationSetup: React.FC<Props> = ({
                     <Info24Regular />
                     Distribution Inputs ({inputs.length})
                 </div>
+                {inputs.some((inp) => inp.error) && (
+                    <MessageBar intent="error" style={{ marginBottom: 8 }}>
+                        <MessageBarBody>
+                            Some inputs have invalid arguments. Fix them before running the simulation.
+                        </MessageBarBody>
+                    </MessageBar>
+                )}
                 {inputs.length === 0 ? (
                     <p className="muted" style={{ fontSize: 11 }}>
                         No inputs detected. Use <code className="mono">=MC.Normal()</code>,{" "}
@@ -205,19 +496,50 @@ export const SimulationSetup: React.FC<Props> = ({
                 ) : (
                     <ul className="dist-list">
                         {inputs.map((inp) => (
-                            <li key={inp.id} className="dist-item-expanded">
+                            <li
+                                key={inp.id}
+                                className={`dist-item-expanded ${inp.error ? "dist-item-invalid" : ""}`}
+                            >
                                 <div className="dist-item-info">
                                     <span className="dist-item-name">{inp.name}</span>
-                                    <span className="dist-item-params">{paramLabel(inp.type, inp.params)}</span>
+                                    <span className="dist-item-params">
+                                        {inp.error ? `⚠ ${inp.error}` : paramLabel(inp)}
+                                    </span>
                                 </div>
-                                <MiniDistChart type={inp.type} params={inp.params} width={90} height={30} />
-                                <span className="dist-badge">{inp.type}</span>
+                                {!inp.error && (
+                                    <MiniDistChart
+                                        type={inp.type}
+                                        params={inp.params}
+                                        modifiers={inp.modifiers}
+                                        width={90}
+                                        height={30}
+                                    />
+                                )}
+                                <span className="dist-badge">{inp.error ? "invalid" : inp.type}</span>
                             </li>
                         ))}
                     </ul>
                 )}
             </div>
 
+            {/* ── Correlations ───────────────────────────────── */}
+            {correlations.length > 0 && (
+                <div className="card">
+                    <div className="card-header">
+                        <Info24Regular />
+                        Correlations ({correlations.length})
+                    </div>
+                    <ul className="dist-list">
+                        {correlations.map((c) => (
+                            <li key={c.id} className="dist-item">
+                                <span>{c.names.join(", ")}</span>
+                                <span className="muted mono">{c.cellAddress}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             {/* ── Registered Outputs ─────────────────────────── */}
             <div className="card">
                 <div className="card-header">
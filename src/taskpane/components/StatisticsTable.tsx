@@ -15,6 +15,9 @@ interface Props {
 export const StatisticsTable: React.FC<Props> = ({ stats, name, threshold = 0 }) => {
     const rows: [string, string][] = [
         ["Iterations", stats.count.toLocaleString()],
+        ...(stats.errorCount > 0
+            ? [["Errors", stats.errorCount.toLocaleString()] as [string, string]]
+            : []),
         ["Minimum", formatNumber(stats.minimum)],
         ["Maximum", formatNumber(stats.maximum)],
         ["Mean", formatNumber(stats.mean)],
@@ -9,8 +9,25 @@ import {
     SimulationProgress,
     SimulationStatus,
 } from "../../engine/types";
-import { runSimulation, cancelSimulation } from "../../engine/simulator";
-import { DEFAULT_ITERATIONS, DEFAULT_SEED, DEFAULT_CONFIDENCE } from "../../shared/constants";
+import {
+    runSimulation,
+    cancelSimulation,
+    stopSimulation,
+    pauseSimulation,
+    resumeSimulation,
+} from "../../engine/simulator";
+import { createExcelHost } from "../../engine/excelHost";
+import { postProcessInWorker } from "../../engine/statsWorkerClient";
+import {
+    DEFAULT_ITERATIONS,
+    DEFAULT_SEED,
+    DEFAULT_CONFIDENCE,
+    DEFAULT_SAMPLING_METHOD,
+    DEFAULT_BATCH_SIZE,
+    DEFAULT_ERROR_POLICY,
+    DEFAULT_RUN_MODE,
+    DEFAULT_TIME_LIMIT_SECONDS,
+} from "../../shared/constants";
 
 interface UseSimulationReturn {
     config: SimulationConfig;
@@ -18,17 +35,30 @@ interface UseSimulationReturn {
     results: SimulationResults | null;
     progress: SimulationProgress | null;
     isRunning: boolean;
+    /** Running, but stopped between batches with the workbook restored */
+    isPaused: boolean;
     run: () => Promise<void>;
+    /** Set the seed to `seed` and run again */
+    rerunWithSeed: (seed: number) => Promise<void>;
     cancel: () => void;
+    /** End the run now and keep statistics on what it completed */
+    stop: () => void;
+    pause: () => void;
+    resume: () => void;
     error: string | null;
 }
 
 export function useSimulation(): UseSimulationReturn {
     const [config, setConfig] = useState<SimulationConfig>({
+        runMode: DEFAULT_RUN_MODE,
         iterations: DEFAULT_ITERATIONS,
+        timeLimitSeconds: DEFAULT_TIME_LIMIT_SECONDS,
         seed: DEFAULT_SEED,
+        samplingMethod: DEFAULT_SAMPLING_METHOD,
+        batchSize: DEFAULT_BATCH_SIZE,
         confidenceLevel: DEFAULT_CONFIDENCE,
         probabilityThreshold: 0,
+        errorPolicy: DEFAULT_ERROR_POLICY,
     });
 
     const [results, setResults] = useState<SimulationResults | null>(null);
@@ -36,23 +66,31 @@ export function useSimulation(): UseSimulationReturn {
     const [isRunning, setIsRunning] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    const run = useCallback(async () => {
+    const execute = useCallback(async (runConfig: SimulationConfig) => {
         setIsRunning(true);
         setError(null);
         setResults(null);
         setProgress({
             status: "running",
             currentIteration: 0,
-            totalIterations: config.iterations,
+            totalIterations: runConfig.iterations,
             iterationsPerSecond: 0,
             elapsedMs: 0,
             estimatedRemainingMs: 0,
         });
 
         try {
-            const res = await runSimulation(config, (p) => {
-                setProgress({ ...p });
-            });
+            const res = await runSimulation(
+                runConfig,
+                (p) => {
+                    setProgress({ ...p });
+                    // Show the statistics so far while paused
+                    if (p.interim) setResults(p.interim);
+                },
+                createExcelHost(),
+                // Sorting and ranking a large run would freeze the pane
+                postProcessInWorker
+            );
             setResults(res);
         } catch (e: unknown) {
             const msg = e instanceof Error ? e.message : "Simulation failed";
@@ -63,7 +101,18 @@ export function useSimulation(): UseSimulationReturn {
         } finally {
             setIsRunning(false);
         }
-    }, [config]);
+    }, []);
+
+    const run = useCallback(() => execute(config), [execute, config]);
+
+    const rerunWithSeed = useCallback(
+        (seed: number) => {
+            const next = { ...config, seed };
+            setConfig(next);
+            return execute(next);
+        },
+        [execute, config]
+    );
 
     const cancel = useCallback(() => {
         cancelSimulation();
@@ -73,5 +122,35 @@ export function useSimulation(): UseSimulationReturn {
         );
     }, []);
 
-    return { config, setConfig, results, progress, isRunning, run, cancel, error };
+    const stop = useCallback(() => {
+        stopSimulation();
+    }, []);
+
+    const pause = useCallback(() => {
+        pauseSimulation();
+    }, []);
+
+    const resume = useCallback(() => {
+        // Interim results go stale as soon as iterations continue
+        setResults(null);
+        resumeSimulation();
+    }, []);
+
+    const isPaused = isRunning && progress?.status === "paused";
+
+    return {
+        config,
+        setConfig,
+        results,
+        progress,
+        isRunning,
+        isPaused,
+        run,
+        rerunWithSeed,
+        cancel,
+        stop,
+        pause,
+        resume,
+        error,
+    };
 }
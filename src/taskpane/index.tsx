@@ -10,17 +10,26 @@
 /* global Office, CustomFunctions */
 
 import React from "react";
-import { createRoot } from "react-dom/client";
+import { createRoot, Root } from "react-dom/client";
 import { FluentProvider, webLightTheme } from "@fluentui/react-components";
 import { App } from "./App";
 import { clearAll } from "../shared/storage";
 import { initCustomFunctions } from "../functions/functions";
 import { initCommands } from "../commands/commands";
+import { RestoreJournal, findJournal } from "../engine/journal";
 import "./styles.css";
 
 // Track if we've already initialized
 let initialized = false;
 
+function render(root: Root, journal: RestoreJournal | null): void {
+    root.render(
+        <FluentProvider theme={webLightTheme}>
+            <App journal={journal} />
+        </FluentProvider>
+    );
+}
+
 function mountApp(): void {
     if (initialized) return;
     initialized = true;
@@ -38,12 +47,16 @@ function mountApp(): void {
     const container = document.getElementById("root");
     if (container) {
         const root = createRoot(container);
-        root.render(
-            <FluentProvider theme={webLightTheme}>
-                <App />
-            </FluentProvider>
-        );
+        render(root, null);
         console.log("[MC] ✅ React app mounted");
+
+        // A run that never finished may have left sampled numbers in
+        // place of input formulas — offer to put them back
+        findJournal().then((journal) => {
+            if (!journal) return;
+            console.log(`[MC] Found an unfinished run journal (${journal.cells.length} cells)`);
+            render(root, journal);
+        });
     }
 }
 